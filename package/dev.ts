@@ -0,0 +1,82 @@
+// Checks for the devMode option. Everything here only runs when isDevelopment is true, which bundlers turn into false
+// in production builds, so the checks are removed along with the code that calls them.
+import * as React from 'react';
+
+declare const process: { env: { NODE_ENV?: string } };
+
+export const isDevelopment = process.env.NODE_ENV !== 'production';
+
+// Freeze plain objects and arrays, and everything inside them. Other objects, such as Maps, Dates and class instances,
+// can't be made immutable by freezing, so they're left alone and checked with contentsOf instead.
+export const deepFreeze = (value: unknown) => {
+	if (typeof value !== 'object' || value === null || Object.isFrozen(value)) return;
+	const prototype = Object.getPrototypeOf(value);
+	if (!Array.isArray(value) && prototype !== Object.prototype && prototype !== null) return;
+	Object.freeze(value);
+	Reflect.ownKeys(value).forEach((key) => deepFreeze((value as Record<PropertyKey, unknown>)[key]));
+};
+
+// A shallow record of what's inside an object that deepFreeze doesn't freeze, used to tell whether it was mutated
+export const contentsOf = (value: unknown): unknown[] | null => {
+	if (typeof value !== 'object' || value === null || Object.isFrozen(value)) return null;
+	if (value instanceof Map) return Array.from(value).flat();
+	if (value instanceof Set) return Array.from(value);
+	return Reflect.ownKeys(value).flatMap((key) => [key, (value as Record<PropertyKey, unknown>)[key]]);
+};
+
+export const sameContents = (a: unknown[], b: unknown[]) =>
+	a.length === b.length && a.every((item, index) => Object.is(item, b[index]));
+
+// The parts of React's internals that are used to tell whether a component is rendering and which component it is. They
+// differ between React 18 and 19, and anything missing means the check is skipped.
+interface HooksDispatcher {
+	useState: unknown;
+	useReducer: unknown;
+}
+
+export interface ReactOwner {
+	tag: number;
+	type: unknown;
+	return: ReactOwner | null;
+}
+
+interface ReactInternals {
+	__SECRET_INTERNALS_DO_NOT_USE_OR_YOU_WILL_BE_FIRED?: {
+		ReactCurrentDispatcher?: { current: HooksDispatcher | null };
+		ReactCurrentOwner?: { current: ReactOwner | null };
+	};
+	__CLIENT_INTERNALS_DO_NOT_USE_OR_WARN_USERS_THEY_CANNOT_UPGRADE?: {
+		H?: HooksDispatcher | null;
+		A?: { getOwner?: () => ReactOwner | null } | null;
+	};
+}
+
+const internals = React as unknown as ReactInternals;
+
+// Outside of rendering, React's dispatcher is one where every hook is the same function that throws
+export const isRendering = () => {
+	const dispatcher =
+		internals.__SECRET_INTERNALS_DO_NOT_USE_OR_YOU_WILL_BE_FIRED?.ReactCurrentDispatcher?.current ??
+		internals.__CLIENT_INTERNALS_DO_NOT_USE_OR_WARN_USERS_THEY_CANNOT_UPGRADE?.H;
+	return !!dispatcher && dispatcher.useState !== dispatcher.useReducer;
+};
+
+// The component that's rendering. React 19 also knows which component's effects are running.
+export const getCurrentOwner = (): ReactOwner | null =>
+	internals.__SECRET_INTERNALS_DO_NOT_USE_OR_YOU_WILL_BE_FIRED?.ReactCurrentOwner?.current ??
+	internals.__CLIENT_INTERNALS_DO_NOT_USE_OR_WARN_USERS_THEY_CANNOT_UPGRADE?.A?.getOwner?.() ??
+	null;
+
+// React detaches unmounted components from the tree, so they no longer lead back up to a root
+const hostRootTag = 3;
+
+export const isUnmounted = (owner: ReactOwner) => {
+	let node = owner;
+	while (node.return) node = node.return;
+	return node.tag !== hostRootTag;
+};
+
+export const ownerName = (owner: ReactOwner) => {
+	const type = owner.type as { displayName?: string; name?: string } | null;
+	return type?.displayName || type?.name || 'a component';
+};
@@ -0,0 +1,134 @@
+import type Store from './index';
+import type { StateTree } from './index';
+
+// The parts of the Redux DevTools extension protocol the bridge uses. Any object with this shape can be injected, which
+// is how the bridge is tested without a browser extension.
+export interface DevtoolsConnection {
+	init: (state: unknown) => void;
+	send: (action: unknown, state: unknown) => void;
+	subscribe: (listener: (message: DevtoolsMessage) => void) => (() => void) | void;
+	unsubscribe?: () => void;
+}
+
+export interface DevtoolsExtension {
+	connect: (options: { name?: string }) => DevtoolsConnection;
+}
+
+export interface DevtoolsMessage {
+	type: string;
+	payload?: {
+		type: string;
+		nextLiftedState?: {
+			computedStates: { state: unknown }[];
+			currentStateIndex: number;
+		};
+	};
+	state?: string;
+}
+
+export interface DevtoolsOptions {
+	// The instance name shown in the extension
+	name?: string;
+	// Defaults to window.__REDUX_DEVTOOLS_EXTENSION__
+	extension?: DevtoolsExtension;
+}
+
+// The action sent for each commit. A single key change is a setState, several keys changed together (a resolved batch or
+// a transaction) is a batch.
+export type DevtoolsAction =
+	| { type: 'setState'; key: PropertyKey; value: unknown }
+	| { type: 'batch'; changes: { key: PropertyKey; value: unknown }[] };
+
+const getDefaultExtension = () =>
+	typeof window === 'undefined'
+		? undefined
+		: (window as unknown as { __REDUX_DEVTOOLS_EXTENSION__?: DevtoolsExtension }).__REDUX_DEVTOOLS_EXTENSION__;
+
+// Connect a store to the Redux DevTools extension. Every commit is reported as an action along with the full state, and
+// jumping to, rolling back to or importing a state in the extension writes it back through the store. Returns a
+// function that disconnects the store. If there's no extension, nothing happens.
+export function connectDevtools<State extends StateTree>(store: Store<State>, options: DevtoolsOptions = {}) {
+	const extension = options.extension ?? getDefaultExtension();
+	if (!extension) return () => {};
+
+	const connection = extension.connect({ name: options.name });
+	const getState = () => ({ ...store.state });
+	const initialState = getState();
+	// Values written back from the extension. Their commits aren't reported, otherwise time travel would add new
+	// actions. In batch mode they're committed later, so they're matched up by key and value when the commit arrives.
+	const expected = new Map<keyof State, unknown>();
+	// Set while a state from the extension is being written synchronously, which also covers derived keys that are
+	// recomputed as a result
+	let applying = false;
+
+	// Write a state from the extension back to the store in one transaction
+	const applyState = (state: unknown) => {
+		if (!state || typeof state !== 'object') return;
+		const values = state as Partial<State>;
+		const keys = (Object.keys(values) as (keyof State)[]).filter((key) => !store.isDerived(key));
+		keys.forEach((key) => expected.set(key, values[key]));
+		// Wrapped so a function value isn't mistaken for an updater
+		const updates = Object.fromEntries(keys.map((key) => [key, () => values[key]]));
+		applying = true;
+		try {
+			store.setMany(updates as Parameters<Store<State>['setMany']>[0]);
+		} finally {
+			applying = false;
+		}
+		// Outside batch mode the commit has already happened, so anything left over didn't change
+		if (!store.options.batchUpdates) expected.clear();
+	};
+
+	const unsubscribeCommits = store.subscribeCommits((changes) => {
+		if (applying) return;
+		const reported = changes.filter((change) => {
+			if (!expected.has(change.key)) return true;
+			const isExpected = expected.get(change.key) === change.newValue;
+			expected.delete(change.key);
+			return !isExpected;
+		});
+		if (reported.length === 0) return;
+		const action: DevtoolsAction =
+			reported.length === 1
+				? { type: 'setState', key: reported[0]!.key, value: reported[0]!.newValue }
+				: { type: 'batch', changes: reported.map((change) => ({ key: change.key, value: change.newValue })) };
+		connection.send(action, getState());
+	});
+
+	const unsubscribeMessages = connection.subscribe((message) => {
+		if (message.type !== 'DISPATCH' || !message.payload) return;
+		switch (message.payload.type) {
+			case 'JUMP_TO_STATE':
+			case 'JUMP_TO_ACTION':
+				if (message.state) applyState(JSON.parse(message.state));
+				return;
+			case 'ROLLBACK':
+				if (message.state) applyState(JSON.parse(message.state));
+				connection.init(getState());
+				return;
+			case 'RESET':
+				applyState(initialState);
+				connection.init(getState());
+				return;
+			case 'COMMIT':
+				connection.init(getState());
+				return;
+			case 'IMPORT_STATE': {
+				const lifted = message.payload.nextLiftedState;
+				if (!lifted) return;
+				applyState(lifted.computedStates[lifted.currentStateIndex]?.state);
+				// Tell the extension to show the imported history
+				connection.send(null, lifted);
+				return;
+			}
+		}
+	});
+
+	connection.init(initialState);
+
+	return () => {
+		unsubscribeCommits();
+		unsubscribeMessages?.();
+		connection.unsubscribe?.();
+	};
+}
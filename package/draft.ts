@@ -0,0 +1,154 @@
+// A small copy-on-write draft, so updates can be written as mutations without mutating the state. Only plain objects and
+// arrays are drafted. Everything else, such as Dates, Maps and class instances, is passed through as it is.
+
+// A recipe receives a draft of the value and either mutates it or returns a replacement
+export type DraftRecipe<T> = (draft: T) => T | void;
+
+interface DraftState {
+	base: Record<PropertyKey, unknown>;
+	// A shallow copy of base, made on the first write to this draft or any draft inside it
+	copy: Record<PropertyKey, unknown> | null;
+	parent: DraftState | null;
+	// The drafts created for values inside this one, by property. Once there's a copy they're also stored in it.
+	children: Map<PropertyKey, unknown>;
+	revoke: () => void;
+}
+
+const draftStates = new WeakMap<object, DraftState>();
+
+const isDraftable = (value: unknown): value is Record<PropertyKey, unknown> => {
+	if (typeof value !== 'object' || value === null) return false;
+	if (Array.isArray(value)) return true;
+	const prototype = Object.getPrototypeOf(value);
+	return prototype === Object.prototype || prototype === null;
+};
+
+const shallowCopy = (value: Record<PropertyKey, unknown>): Record<PropertyKey, unknown> =>
+	Array.isArray(value)
+		? ([...value] as unknown as Record<PropertyKey, unknown>)
+		: Object.assign(Object.create(Object.getPrototypeOf(value)), value);
+
+// Make a copy for a draft and all of its parents, which is how a write deep inside the value makes a new value at the top
+const markChanged = (state: DraftState) => {
+	if (state.copy) return;
+	state.copy = shallowCopy(state.base);
+	state.children.forEach((child, key) => (state.copy![key] = child));
+	if (state.parent) markChanged(state.parent);
+};
+
+const source = (state: DraftState) => state.copy ?? state.base;
+
+const createDraft = (base: Record<PropertyKey, unknown>, parent: DraftState | null, drafts: DraftState[]) => {
+	// The target is only there so the proxy looks like an array or an object. Every trap reads from the draft state.
+	const { proxy, revoke } = Proxy.revocable(Array.isArray(base) ? [] : {}, {
+		get(_, key) {
+			const value = source(state)[key];
+			if (typeof value === 'object' && value !== null && draftStates.has(value)) return value;
+			if (!state.copy && state.children.has(key)) return state.children.get(key);
+			if (!isDraftable(value) || !Object.prototype.hasOwnProperty.call(source(state), key)) return value;
+			const child = createDraft(value, state, drafts);
+			state.children.set(key, child);
+			if (state.copy) state.copy[key] = child;
+			return child;
+		},
+		set(_, key, value) {
+			const current = source(state);
+			if (Object.is(current[key], value) && (value !== undefined || key in current)) return true;
+			if (!state.copy && state.children.get(key) === value) return true;
+			markChanged(state);
+			state.copy![key] = value;
+			state.children.delete(key);
+			return true;
+		},
+		deleteProperty(_, key) {
+			if (!(key in source(state))) return true;
+			markChanged(state);
+			delete state.copy![key];
+			state.children.delete(key);
+			return true;
+		},
+		has(_, key) {
+			return key in source(state);
+		},
+		ownKeys() {
+			return Reflect.ownKeys(source(state));
+		},
+		getOwnPropertyDescriptor(_, key) {
+			const descriptor = Reflect.getOwnPropertyDescriptor(source(state), key);
+			if (!descriptor) return undefined;
+			// An array's length can't be reported as configurable, and nothing else can be reported as non-configurable,
+			// because the target doesn't have those properties. Frozen values are drafted as if they were writable.
+			const configurable = key !== 'length' || !Array.isArray(base);
+			return 'value' in descriptor
+				? { ...descriptor, writable: true, configurable }
+				: { ...descriptor, configurable };
+		},
+		defineProperty() {
+			throw new Error('Object.defineProperty is not supported on a draft');
+		},
+		setPrototypeOf() {
+			throw new Error('Object.setPrototypeOf is not supported on a draft');
+		},
+	});
+	const state: DraftState = { base, copy: null, parent, children: new Map(), revoke };
+	draftStates.set(proxy, state);
+	drafts.push(state);
+	return proxy as Record<PropertyKey, unknown>;
+};
+
+// Turn a draft back into a plain value. Drafts that weren't written to become their base value, so everything that
+// didn't change keeps its reference. Values that were assigned into the draft are searched for drafts too. Each value is
+// only finalized once, so a draft that appears in more than one place becomes the same result everywhere.
+const finalize = (value: unknown, finalized: Map<unknown, unknown>): unknown => {
+	if (typeof value !== 'object' || value === null) return value;
+	if (finalized.has(value)) return finalized.get(value);
+	const state = draftStates.get(value);
+	if (state) {
+		if (!state.copy) {
+			finalized.set(value, state.base);
+			return state.base;
+		}
+		const copy = state.copy;
+		finalized.set(value, copy);
+		Reflect.ownKeys(copy).forEach((key) => {
+			if (copy[key] !== state.base[key]) copy[key] = finalize(copy[key], finalized);
+		});
+		return copy;
+	}
+	finalized.set(value, value);
+	if (isDraftable(value) && !Object.isFrozen(value)) {
+		Reflect.ownKeys(value).forEach((key) => {
+			const item = value[key];
+			const result = finalize(item, finalized);
+			if (result !== item) value[key] = result;
+		});
+	}
+	return value;
+};
+
+// Run a recipe against a draft of a value and return the result. If the recipe doesn't change anything, the original
+// value is returned. Otherwise every object and array that contains a change is copied and everything else is shared.
+// Values that can't be drafted, such as numbers or Dates, are passed to the recipe as they are, so the recipe has to
+// return the new value.
+export function produce<T>(base: T, recipe: DraftRecipe<T>): T {
+	if (!isDraftable(base)) {
+		const result = recipe(base);
+		return result === undefined ? base : result;
+	}
+	const drafts: DraftState[] = [];
+	const draft = createDraft(base, null, drafts);
+	try {
+		const result = recipe(draft as T);
+		const state = draftStates.get(draft)!;
+		if (result !== undefined && result !== draft) {
+			if (state.copy) {
+				throw new Error('An update recipe can modify the draft or return a new value, but not both');
+			}
+			return finalize(result, new Map()) as T;
+		}
+		return finalize(draft, new Map()) as T;
+	} finally {
+		// Drafts can't be used once the recipe has finished
+		drafts.forEach((state) => state.revoke());
+	}
+}
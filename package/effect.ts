@@ -0,0 +1,109 @@
+import type Store from './index';
+import type { StateTree, StoreValues } from './index';
+
+// Returned from an effect to clean up before it runs again, and when it's disposed
+export type StoreEffectCleanup = () => void;
+
+export type StoreEffect<State extends StateTree, Keys extends readonly (keyof State)[]> = (
+	values: StoreValues<State, Keys>,
+	prev: StoreValues<State, Keys>,
+) => void | StoreEffectCleanup;
+
+export interface StoreEffectOptions {
+	// Wait until none of the keys have changed for this long before running, in milliseconds
+	debounceMs?: number;
+	// Run at most once in this long, in milliseconds. The first change runs straight away and the last change in the
+	// window runs at the end of it. Ignored when debounceMs is set.
+	throttleMs?: number;
+	// Run once straight away with the current values, which are also passed as prev. Defaults to false.
+	fireImmediately?: boolean;
+}
+
+// The store's side of an effect. settle is called once a commit, and everything it set off, has finished, and dispose
+// stops the effect and runs its cleanup.
+export interface EffectRunner {
+	settle: () => void;
+	dispose: () => void;
+}
+
+// Create the runner behind store.effect. call runs the effect, so the store can pass errors on to its onError option.
+export function createEffectRunner<State extends StateTree, const Keys extends readonly (keyof State)[]>(
+	store: Store<State>,
+	keys: Keys,
+	effect: StoreEffect<State, Keys>,
+	{ debounceMs, throttleMs, fireImmediately = false }: StoreEffectOptions,
+	call: (run: () => void) => void,
+): EffectRunner {
+	const read = () => keys.map((key) => store.getSnapshot(key).value) as StoreValues<State, Keys>;
+	let last = read();
+	let cleanup: StoreEffectCleanup | undefined;
+	let changed = false;
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	let lastRun = -Infinity;
+	// Set while the effect is running, so a write it makes to one of its own keys runs it again afterwards rather than in
+	// the middle
+	let running = false;
+
+	const runWith = (values: StoreValues<State, Keys>, prev: StoreValues<State, Keys>) => {
+		running = true;
+		call(() => {
+			const previousCleanup = cleanup;
+			cleanup = undefined;
+			previousCleanup?.();
+			const result = effect(values, prev);
+			if (typeof result === 'function') cleanup = result;
+		});
+		running = false;
+		settle();
+	};
+
+	const run = () => {
+		timer = undefined;
+		lastRun = Date.now();
+		const values = read();
+		// The keys may have changed back while the run was waiting for the debounce or throttle
+		if (values.every((value, index) => Object.is(value, last[index]))) return;
+		const prev = last;
+		last = values;
+		runWith(values, prev);
+	};
+
+	// The key listeners only note that something changed, so the effect runs once however many of the keys a commit
+	// changed
+	const unsubscribe = store.subscribeKeys(keys, () => {
+		changed = true;
+	});
+
+	const settle = () => {
+		if (!changed || running) return;
+		changed = false;
+		if (debounceMs !== undefined) {
+			clearTimeout(timer);
+			timer = setTimeout(run, debounceMs);
+		} else if (throttleMs !== undefined) {
+			if (timer !== undefined) return;
+			const wait = lastRun + throttleMs - Date.now();
+			if (wait > 0) {
+				timer = setTimeout(run, wait);
+			} else {
+				run();
+			}
+		} else {
+			run();
+		}
+	};
+
+	if (fireImmediately) runWith(last, last);
+
+	return {
+		settle,
+		dispose: () => {
+			unsubscribe();
+			clearTimeout(timer);
+			timer = undefined;
+			const previousCleanup = cleanup;
+			cleanup = undefined;
+			if (previousCleanup) call(previousCleanup);
+		},
+	};
+}
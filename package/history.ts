@@ -0,0 +1,137 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import type Store from './index';
+import type { StateTree, StoreChange } from './index';
+
+export interface HistoryOptions<State extends StateTree> {
+	// Only record changes to these keys. All keys except derived keys are recorded by default.
+	keys?: (keyof State)[];
+	// The most undo steps to keep. The oldest steps are dropped first. Defaults to 100.
+	maxDepth?: number;
+}
+
+export interface HistoryStatus {
+	canUndo: boolean;
+	canRedo: boolean;
+}
+
+export interface StoreHistory extends HistoryStatus {
+	// Undo or redo the most recent step. Returns false if there was nothing to undo or redo.
+	undo: () => boolean;
+	redo: () => boolean;
+	// Forget every recorded step
+	clear: () => void;
+	// Stop recording changes
+	stop: () => void;
+	// Get the current status. The same object is returned until canUndo or canRedo changes.
+	getStatus: () => HistoryStatus;
+	// Subscribe to changes of canUndo and canRedo. Returns a function that can be called to unsubscribe.
+	subscribe: (callback: () => void) => () => void;
+}
+
+// An undo step is every recorded change from one commit, so a batch or transaction is undone in one go
+type HistoryStep<State extends StateTree> = StoreChange<State>[];
+
+// Record changes to a store so they can be undone and redone. Every commit (a single setState, a resolved batch or a
+// completed transaction) that changes a recorded key becomes one undo step. Making a new change clears the redo steps.
+export function createHistory<State extends StateTree>(
+	store: Store<State>,
+	options: HistoryOptions<State> = {},
+): StoreHistory {
+	const { keys, maxDepth = 100 } = options;
+	const isRecorded = (key: keyof State) => !store.isDerived(key) && (!keys || keys.includes(key));
+
+	let undoSteps: HistoryStep<State>[] = [];
+	let redoSteps: HistoryStep<State>[] = [];
+	let status: HistoryStatus = { canUndo: false, canRedo: false };
+	const callbacks = new Set<() => void>();
+	// Values written by undo and redo. When they're committed they move the history rather than being recorded as a new
+	// step. In batch mode they're committed later, so they're matched up by key and value when the commit arrives.
+	const expected = new Map<keyof State, State[keyof State]>();
+
+	const updateStatus = () => {
+		const canUndo = undoSteps.length > 0;
+		const canRedo = redoSteps.length > 0;
+		if (canUndo === status.canUndo && canRedo === status.canRedo) return;
+		status = { canUndo, canRedo };
+		callbacks.forEach((callback) => callback());
+	};
+
+	const unsubscribe = store.subscribeCommits((changes) => {
+		const step = changes.filter((change) => {
+			if (expected.has(change.key)) {
+				const isExpected = expected.get(change.key) === change.newValue;
+				expected.delete(change.key);
+				if (isExpected) return false;
+			}
+			return isRecorded(change.key);
+		});
+		if (step.length === 0) return;
+		undoSteps = [...undoSteps, step].slice(-maxDepth);
+		redoSteps = [];
+		updateStatus();
+	});
+
+	// Write a set of values back to the store in one transaction
+	const apply = (values: [keyof State, State[keyof State]][]) => {
+		values.forEach(([key, value]) => expected.set(key, value));
+		// Wrapped so a function value isn't mistaken for an updater
+		const updates = Object.fromEntries(values.map(([key, value]) => [key, () => value]));
+		store.setMany(updates as Parameters<Store<State>['setMany']>[0]);
+		// Outside batch mode the commit has already happened, so anything left over didn't change
+		if (!store.options.batchUpdates) expected.clear();
+	};
+
+	const history: StoreHistory = {
+		get canUndo() {
+			return status.canUndo;
+		},
+		get canRedo() {
+			return status.canRedo;
+		},
+		undo: () => {
+			const step = undoSteps[undoSteps.length - 1];
+			if (!step) return false;
+			undoSteps = undoSteps.slice(0, -1);
+			redoSteps = [...redoSteps, step];
+			updateStatus();
+			apply(step.map((change) => [change.key, change.oldValue]));
+			return true;
+		},
+		redo: () => {
+			const step = redoSteps[redoSteps.length - 1];
+			if (!step) return false;
+			redoSteps = redoSteps.slice(0, -1);
+			undoSteps = [...undoSteps, step];
+			updateStatus();
+			apply(step.map((change) => [change.key, change.newValue]));
+			return true;
+		},
+		clear: () => {
+			undoSteps = [];
+			redoSteps = [];
+			updateStatus();
+		},
+		stop: () => {
+			unsubscribe();
+		},
+		getStatus: () => status,
+		subscribe: (callback) => {
+			callbacks.add(callback);
+			return () => {
+				callbacks.delete(callback);
+			};
+		},
+	};
+
+	return history;
+}
+
+// This hook returns canUndo and canRedo for a history, along with undo and redo functions, and re-renders when canUndo
+// or canRedo changes.
+export function useStoreHistory(history: StoreHistory) {
+	const status = useSyncExternalStore(history.subscribe, history.getStatus, history.getStatus);
+	const undo = useCallback(() => history.undo(), [history]);
+	const redo = useCallback(() => history.redo(), [history]);
+
+	return { ...status, undo, redo };
+}
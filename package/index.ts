@@ -1,4 +1,40 @@
-import { useCallback, useEffect, useState } from 'react';
+import {
+	createContext,
+	createElement,
+	useCallback,
+	useContext,
+	useEffect,
+	useMemo,
+	useRef,
+	useState,
+	useSyncExternalStore,
+} from 'react';
+import type { ReactNode } from 'react';
+import { defaultTransformer } from './ssr';
+import type { DehydratedState, StoreTransformer } from './ssr';
+import { RecordIndex, RecordQuery } from './query';
+import { getAtPath, setAtPath, splitPath } from './path';
+import type { PathValue, StorePath } from './path';
+import { produce } from './draft';
+import type { DraftRecipe } from './draft';
+import { getResource, invalidateResource, loadResource, refetchResource } from './resource';
+import type { LoadOptions, ResourceFetcher, StoreResource } from './resource';
+import { validateValue } from './schema';
+import { createEffectRunner } from './effect';
+import type { EffectRunner, StoreEffect, StoreEffectOptions } from './effect';
+import {
+	contentsOf,
+	deepFreeze,
+	getCurrentOwner,
+	isDevelopment,
+	isRendering,
+	isUnmounted,
+	ownerName,
+	sameContents,
+} from './dev';
+import type { ReactOwner } from './dev';
+import type { InferSchemaState, StandardSchemaV1, StoreSchema, StoreValidationError, ValidationMode } from './schema';
+import type { RecordIndexGetter, RecordQueryOptions } from './query';
 
 // Why any? Unknown is not appropriate here because we dont want to have to determine the type of the state when we access it.
 // By using any, we can quietly cast the state to the correct type when we access it. The type is still inferred correctly,
@@ -10,16 +46,144 @@ export interface StoreOptions<State extends StateTree> {
 	equalityFn?: <Key extends keyof State>(oldValue: State[Key], newValue: State[Key], key: Key) => boolean;
 	// Run callbacks to state updates synchronously or batch them
 	batchUpdates?: boolean;
+	// When a batch is resolved in batch mode. Defaults to timeout.
+	scheduler?: StoreScheduler;
+	// Functions that run around every setState, in order, before the write is applied
+	middleware?: StoreMiddleware<State>[];
+	// Converts values for dehydrate and hydrate. The default handles Date, Map, Set, BigInt and undefined as well as JSON.
+	transformer?: StoreTransformer;
+	// Standard Schema validators (zod, valibot and so on) for some or all keys. Every write to a key with a schema is
+	// validated after the middleware has run, and so are the default values and hydrated values.
+	schema?: StoreSchema<State>;
+	// What to do with values that fail validation: reject (the default) drops the write, coerce writes the schema's output
+	// value, and warn writes the value anyway
+	validationMode?: ValidationMode;
+	// Called with every value that fails validation, whatever the mode. Defaults to console.warn.
+	onValidationError?: (error: StoreValidationError) => void;
+	// Called when a listener throws. The other listeners are still called, and the commit or batch still finishes. Defaults
+	// to rethrowing the error asynchronously, so it's reported as uncaught without getting in the way of the store.
+	onError?: (error: unknown, context: StoreErrorContext<State>) => void;
+	// Extra checks while developing: values are deep-frozen, and there are warnings for writes skipped because a value was
+	// mutated in place, setState during render and listeners left subscribed after their component unmounted. With React
+	// 18, only listeners subscribed during render are tracked, since React doesn't say which component's effect is running.
+	// The checks are removed from production builds.
+	devMode?: boolean;
+}
+
+// Where a listener error came from. key is undefined for listeners that aren't for one key, such as commit listeners.
+export interface StoreErrorContext<State extends StateTree> {
+	key: keyof State | undefined;
+	listener: (...args: never[]) => unknown;
 }
 
 const defaultOptions: Required<StoreOptions<StateTree>> = {
 	equalityFn: (oldValue, newValue) => oldValue === newValue,
 	batchUpdates: false,
+	scheduler: 'timeout',
+	middleware: [],
+	transformer: defaultTransformer,
+	schema: {},
+	validationMode: 'reject',
+	onValidationError: (error) => console.warn(error),
+	devMode: false,
+	onError: (error) => {
+		setTimeout(() => {
+			throw error;
+		}, 0);
+	},
+};
+
+// How a batch is scheduled in batch mode. microtask resolves it at the end of the current task, like React's own
+// batching. animationFrame resolves it before the next paint, falling back to timeout where there are no animation
+// frames. timeout resolves it in a later task with setTimeout. A function is called with a callback that resolves the
+// batch, and can call it whenever it likes.
+export type StoreScheduler = 'microtask' | 'animationFrame' | 'timeout' | ((resolve: () => void) => void);
+
+const scheduleBatch = (scheduler: StoreScheduler, resolve: () => void) => {
+	if (typeof scheduler === 'function') {
+		scheduler(resolve);
+	} else if (scheduler === 'microtask') {
+		queueMicrotask(resolve);
+	} else if (scheduler === 'animationFrame' && typeof requestAnimationFrame === 'function') {
+		requestAnimationFrame(() => resolve());
+	} else {
+		setTimeout(resolve, 0);
+	}
 };
 
+// A write that's passing through the middleware. prevValue is the current state of the key and value is the value that
+// will be written if the middleware calls next without an argument.
+export interface StoreWrite<State extends StateTree, Key extends keyof State = keyof State> {
+	key: Key;
+	prevValue: State[Key];
+	value: State[Key];
+	store: Store<State>;
+}
+
+// Middleware receives every write before it's applied. Calling next passes the write on to the next middleware, or
+// applies it if this is the last one. next can be called with a different value to transform the write, called later
+// to defer it, or not called at all to veto it. The write is a union per key, so checking the key narrows the values.
+export type StoreMiddleware<State extends StateTree> = (
+	write: { [Key in keyof State]: StoreWrite<State, Key> }[keyof State],
+	next: (...args: [] | [value: State[keyof State]]) => void,
+) => void;
+
 // Equivalent to React's SetStateAction
 export type SetStateArgument<T> = T | ((prev: T) => T);
 
+// A snapshot is an immutable view of a single key at a specific version. The version is incremented every time the key's
+// listeners are notified, so a snapshot object keeps the same reference until the key actually changes. Wrapping the
+// value also means function values are never confused with anything else by React.
+export interface StoreSnapshot<T> {
+	readonly version: number;
+	readonly value: T;
+}
+
+// A listener for changes to more than one key. It receives the key that changed along with its new and old values.
+export type StoreChangeListener<State extends StateTree, Keys extends keyof State = keyof State> = (
+	key: Keys,
+	newValue: State[Keys],
+	oldValue: State[Keys],
+) => void;
+
+// A single key's change within a commit
+export interface StoreChange<State extends StateTree, Key extends keyof State = keyof State> {
+	key: Key;
+	newValue: State[Key];
+	oldValue: State[Key];
+}
+
+// A listener for whole commits. A commit is a single setState, a resolved batch or a completed transaction, and the
+// listener receives every key that changed in it at once.
+export type StoreCommitListener<State extends StateTree> = (changes: StoreChange<State>[]) => void;
+
+// The function handed to a derived key's getter. Every key read through it is tracked as a dependency of the derived key.
+export type DerivedGetter<State extends StateTree> = <Key extends keyof State>(key: Key) => State[Key];
+
+// An object of values for several keys at once, each of which can be a new value or an updater function
+export type SetManyArgument<State extends StateTree> = {
+	[Key in keyof State]?: SetStateArgument<State[Key]>;
+};
+
+// Internal bookkeeping for a derived key. Dependencies are re-tracked on every computation, so conditional reads work.
+interface DerivedEntry<State extends StateTree> {
+	getter: (get: DerivedGetter<State>) => State[keyof State];
+	dependencies: Set<keyof State>;
+	// Set when a dependency has changed since the value was last computed
+	dirty: boolean;
+	// Set while the getter is running, used to detect circular dependencies
+	computing: boolean;
+	// Set when the getter threw while it was being recomputed for its listeners, so the next change to a dependency
+	// tries again even though it's still dirty
+	failed: boolean;
+}
+
+// A start function registered with onObserved, and the cleanup it returned while the key is observed
+interface ObservedEntry {
+	start: () => (() => void) | void;
+	cleanup: (() => void) | void;
+}
+
 // Main store class
 export default class Store<State extends StateTree> {
 	// The state is public so that it can be accessed directly if needed. Not recommended.
@@ -30,55 +194,289 @@ export default class Store<State extends StateTree> {
 	public callbacks: {
 		[key in keyof State]?: Set<(newValue: State[key]) => void>;
 	} = {};
+	// Listeners registered with subscribeAll, called for every key that changes
+	public storeCallbacks: Set<StoreChangeListener<State>> = new Set();
+	// Listeners registered with subscribeCommits, called once per commit
+	public commitCallbacks: Set<StoreCommitListener<State>> = new Set();
 
 	// Deferred state is used to batch updates. When setState is called, the state is not updated immediately, but instead
 	// stored in the deferredState map. When the batch is resolved, the deferredState is cycled through and the state is
 	// updated.
 	private _deferredState: Map<keyof State, State[keyof State]> = new Map();
-	// This flag is used to prevent multiple setTimeouts from being set when a batch update is already pending.
+	// This flag is used to prevent a batch from being scheduled more than once while one is already pending.
 	private _awaitingUpdate = false;
+	// Writes made inside transactions. Each nested transaction adds a layer, which is merged into its parent when it
+	// completes, or thrown away if it throws. The outermost layer is applied to the store when the transaction completes.
+	private _transactions: Map<keyof State, State[keyof State]>[] = [];
+	// Per-key versions and the cached snapshots handed to useSyncExternalStore. A snapshot is dropped whenever its key is
+	// notified, and recreated lazily the next time it's read.
+	private _versions: Map<keyof State, number> = new Map();
+	private _snapshots: Map<keyof State, StoreSnapshot<State[keyof State]>> = new Map();
+	// Derived keys, and a reverse lookup from each key to the derived keys that read it
+	private _derived: Map<keyof State, DerivedEntry<State>> = new Map();
+	private _dependents: Map<keyof State, Set<keyof State>> = new Map();
+	// A copy of the default values, kept for reset and resetAll
+	private _defaultValues: State;
+	// Functions registered with onObserved, by key
+	private _observed: Map<keyof State, Set<ObservedEntry>> = new Map();
+	private _disposed = false;
+	// Effects created with effect, which are run once the outermost commit in progress has finished
+	private _effects: Set<EffectRunner> = new Set();
+	private _commitDepth = 0;
+	// Bookkeeping for devMode: the contents of stored values that can't be frozen, the component each listener was
+	// subscribed by, and the listeners that have already been warned about
+	private _devContents: WeakMap<object, unknown[]> = new WeakMap();
+	private _devOwners: WeakMap<object, ReactOwner> = new WeakMap();
+	private _devWarned: WeakSet<object> = new WeakSet();
 
 	// Using the generic as the type of defaultValues is the magic that allows the state to be inferred correctly. This is
 	// overridden by providing the generic directly when instantiating.
 	constructor(defaultValues: State, options?: StoreOptions<State>) {
-		this.state = defaultValues;
+		// The state is written to in place, so it's copied to leave the object that was passed in alone
+		this.state = { ...defaultValues };
 		// Let the default options be overridden by the provided options
 		this.options = { ...defaultOptions, ...options };
+		this._validateDefaults();
+		this._defaultValues = { ...this.state };
+		if (isDevelopment && this.options.devMode) {
+			Reflect.ownKeys(this.state).forEach((key) => this._devTrack(this.state[key]));
+		}
+	}
+
+	// Create a store whose state type is inferred from a schema rather than from the default values. Every key needs a
+	// schema, and the default values are checked against it.
+	public static withSchema<Schema extends Record<PropertyKey, StandardSchemaV1>>(
+		schema: Schema,
+		defaultValues: InferSchemaState<Schema>,
+		options?: Omit<StoreOptions<InferSchemaState<Schema>>, 'schema'>,
+	) {
+		return new Store<InferSchemaState<Schema>>(defaultValues, {
+			...options,
+			schema: schema as StoreSchema<InferSchemaState<Schema>>,
+		});
 	}
 
-	// Get the state for a key. If running in batch mode (default), the accurate state will be in the deferredState map.
-	public getState<Key extends keyof State>(key: Key) {
+	// Get the state for a key. Inside a transaction, the accurate state may be in one of the transaction layers. If running
+	// in batch mode (default), the accurate state will be in the deferredState map. Derived keys are computed on demand if
+	// a dependency has changed since they were last read.
+	public getState<Key extends keyof State>(key: Key): State[Key] {
+		if (this._derived.has(key)) {
+			return this._readDerived(key);
+		}
+		for (let index = this._transactions.length - 1; index >= 0; index--) {
+			const layer = this._transactions[index]!;
+			if (layer.has(key)) return layer.get(key) as State[Key];
+		}
 		return this._deferredState.has(key) ? (this._deferredState.get(key) as State[Key]) : this.state[key];
 	}
 
 	// Set the state for a key. If running in batch mode (default), the state is not updated immediately, but stored in
 	// the deferredState map. When the batch is resolved, the deferredState is cycled through and the state is updated.
 	public setState<Key extends keyof State>(key: Key, newValue: SetStateArgument<State[Key]>) {
+		if (this._derived.has(key)) {
+			throw new Error(`Cannot set derived key "${String(key)}"`);
+		}
+		if (isDevelopment && this.options.devMode && isRendering()) {
+			console.warn(
+				`setState("${String(key)}") was called while a component was rendering. Update the store from an effect or an event handler instead.`,
+			);
+		}
 		const resolvedValue = this._resolveNewValue(key, newValue);
-		if (this.options.batchUpdates) {
-			this._deferredState.set(key, resolvedValue);
-			this._flagDeferredStateForResolution();
+		this._runMiddleware(key, resolvedValue);
+	}
+
+	// Add a middleware to the end of the chain. Returns a function that can be called to remove it again.
+	public use(middleware: StoreMiddleware<State>) {
+		// The array is replaced rather than mutated so a write that's already running keeps the chain it started with
+		this.options.middleware = [...this.options.middleware, middleware];
+		return () => {
+			this.options.middleware = this.options.middleware.filter((existing) => existing !== middleware);
+		};
+	}
+
+	// Set the state for several keys at once. The writes are applied atomically in a transaction, so listeners are only
+	// called once all of the keys have their new values.
+	public setMany(values: SetManyArgument<State>) {
+		this.transaction(() => {
+			(Reflect.ownKeys(values) as (keyof State)[]).forEach((key) => {
+				this.setState(key, values[key] as SetStateArgument<State[keyof State]>);
+			});
+		});
+	}
+
+	// Resolve the pending batch now rather than waiting for the scheduler. Writes made by listeners while it's resolving
+	// are committed before it returns too. Writes inside a transaction that's still running aren't part of the batch yet.
+	public flush() {
+		// Cleared first so the scheduled resolution does nothing when it runs
+		this._awaitingUpdate = false;
+		while (this._deferredState.size) {
+			this._resolveDeferredState();
+		}
+	}
+
+	// Whether there are writes waiting for the batch to be resolved
+	public get hasPendingUpdates() {
+		return this._deferredState.size > 0;
+	}
+
+	// Run a callback with every setState inside it applied atomically. Nothing is written to the store and no listeners are
+	// called until the callback returns, then each key that changed is notified once. If the callback throws, all of its
+	// writes are rolled back and the error is rethrown. Transactions can be nested: an inner transaction that throws only
+	// rolls back its own writes. The callback must be synchronous. Its return value is returned.
+	public transaction<Result>(callback: () => Result): Result {
+		const layer: Map<keyof State, State[keyof State]> = new Map();
+		this._transactions.push(layer);
+		let result: Result;
+		try {
+			result = callback();
+		} finally {
+			this._transactions.pop();
+		}
+		const parent = this._transactions[this._transactions.length - 1];
+		if (parent) {
+			layer.forEach((value, key) => parent.set(key, value));
+		} else if (this.options.batchUpdates) {
+			// In batch mode the writes join the pending batch like any other setState
+			layer.forEach((value, key) => this._deferredState.set(key, value));
+			if (layer.size) this._flagDeferredStateForResolution();
 		} else {
-			this._setState(key, resolvedValue);
+			this._commitState(Array.from(layer));
 		}
+		return result;
+	}
+
+	// Update a key by mutating a draft of its value. The recipe can change the draft as if it were the value (push to
+	// arrays, assign properties, delete keys) and a new value is made from the changes, with everything that didn't change
+	// shared with the previous value. The previous value is never mutated. If nothing changes, the key isn't updated. The
+	// recipe can also return a new value instead, which is how keys holding primitives are updated.
+	public update<Key extends keyof State>(key: Key, recipe: DraftRecipe<State[Key]>) {
+		this.setState(key, (prev) => produce(prev, recipe));
+	}
+
+	// Load the value of a key with an async fetcher. The key's status ({ status, data, error }) is tracked and can be read
+	// with getResource or useStoreResource. Starting a new load aborts the signal of the one in flight, unless dedupe is on
+	// (the default), in which case the request in flight is shared. A key that loaded successfully within staleTime isn't
+	// fetched again. The returned promise resolves with the status once the key settles, and never rejects.
+	public load<Key extends keyof State>(key: Key, fetcher: ResourceFetcher<State[Key]>, options?: LoadOptions) {
+		return loadResource(this, key, fetcher, options);
+	}
+
+	// Run the last fetcher for a key again, aborting any request in flight
+	public refetch<Key extends keyof State>(key: Key) {
+		return refetchResource(this, key);
+	}
+
+	// Mark a loaded key as stale. If a component is showing its status, it's refetched straight away. Otherwise the next
+	// load fetches it, whatever the staleTime.
+	public invalidate<Key extends keyof State>(key: Key) {
+		invalidateResource(this, key);
+	}
+
+	// Get the load status of a key. Keys that have never been loaded have the status 'idle'.
+	public getResource<Key extends keyof State>(key: Key): StoreResource<State[Key]> {
+		return getResource(this, key);
+	}
+
+	// Set a key back to its default value. This is a normal write, so it goes through the middleware and batching.
+	public reset<Key extends keyof State>(key: Key) {
+		// Wrapped so a function value isn't mistaken for an updater
+		this.setState(key, () => this._defaultValues[key]);
+	}
+
+	// Set every key back to its default value in one commit. Keys that weren't in the default values, such as items added
+	// to a RecordStore, are set to undefined. Derived keys are recomputed from the reset values.
+	public resetAll() {
+		const keys = new Set<keyof State>([
+			...(Reflect.ownKeys(this.state) as (keyof State)[]),
+			...(Reflect.ownKeys(this._defaultValues) as (keyof State)[]),
+		]);
+		const values: SetManyArgument<State> = {};
+		keys.forEach((key) => {
+			if (!this.isDerived(key)) values[key] = () => this._defaultValues[key];
+		});
+		this.setMany(values);
+	}
+
+	// Create a store that inherits this store's state. Keys in overrides have their own value in the child, and every other
+	// key reads through to this store, so the child's subscribers are notified when they change here. Writing to an
+	// inherited key in the child overrides it from then on, leaving this store alone. The child has the same options as
+	// this store unless others are given.
+	public createChild(overrides: Partial<State> = {}, options?: StoreOptions<State>): ChildStore<State> {
+		return new ChildStore(this, overrides, options);
+	}
+
+	// Run a function when a key gets its first subscriber. If it returns a cleanup function, that's called once the last
+	// subscriber has unsubscribed, and the function runs again when the key is next subscribed to. This is a way to open a
+	// socket or start a timer only while something is watching the key. If the key already has subscribers, the function
+	// runs straight away. Returns a function that removes it, running the cleanup if the key is being observed.
+	public onObserved<Key extends keyof State>(key: Key, start: () => (() => void) | void) {
+		const entry: ObservedEntry = { start, cleanup: undefined };
+		let entries = this._observed.get(key);
+		if (!entries) {
+			entries = new Set();
+			this._observed.set(key, entries);
+		}
+		entries.add(entry);
+		if (this.callbacks[key]?.size) entry.cleanup = start();
+		return () => {
+			if (!this._observed.get(key)?.delete(entry)) return;
+			entry.cleanup?.();
+			entry.cleanup = undefined;
+		};
+	}
+
+	// Release everything the store holds: listeners, the pending batch, effects and onObserved functions, whose cleanups
+	// are run.
+	// Writes to a disposed store are ignored, so late async work such as a load that settles afterwards does nothing.
+	public dispose() {
+		if (this._disposed) return;
+		this._disposed = true;
+		this._deferredState.clear();
+		this._awaitingUpdate = false;
+		this.callbacks = {};
+		this.storeCallbacks.clear();
+		this.commitCallbacks.clear();
+		this._observed.forEach((entries) => entries.forEach((entry) => entry.cleanup?.()));
+		this._observed.clear();
+		this._effects.forEach((runner) => runner.dispose());
+		this._effects.clear();
+	}
+
+	// Whether dispose has been called
+	public get isDisposed() {
+		return this._disposed;
 	}
 
 	// Low level (but public) function to register a callback for a key
 	public on<Key extends keyof State>(key: Key, callback: (newValue: State[Key]) => void) {
+		// A derived key that nobody was watching may be out of date. Bring it up to date before the first listener is added,
+		// so that it's tracking its dependencies from now on.
+		if (this._derived.get(key)?.dirty) {
+			this._refreshDerived(key);
+		}
 		const existingCallbacks = this.callbacks[key];
+		// Adding a callback that's already there doesn't make an unobserved key observed
+		const wasObserved = !!existingCallbacks?.size;
 		if (existingCallbacks) {
 			existingCallbacks.add(callback);
 		} else {
 			this.callbacks[key] = new Set([callback]);
 		}
+		if (isDevelopment && this.options.devMode) this._devRecordOwner(callback);
+		if (!wasObserved) {
+			this._observed.get(key)?.forEach((entry) => (entry.cleanup = entry.start()));
+		}
 	}
 
 	// Low level (but public) function to remove a callback for a key. Note: callbacks are not removed unless they are
 	// an exact reference match.
 	public off<Key extends keyof State>(key: Key, callback: (newValue: State[Key]) => void) {
 		const existingCallbacks = this.callbacks[key];
-		if (existingCallbacks) {
-			existingCallbacks.delete(callback);
+		if (existingCallbacks?.delete(callback) && existingCallbacks.size === 0) {
+			this._observed.get(key)?.forEach((entry) => {
+				entry.cleanup?.();
+				entry.cleanup = undefined;
+			});
 		}
 	}
 
@@ -88,26 +486,492 @@ export default class Store<State extends StateTree> {
 		return () => this.off(key, callback);
 	}
 
+	// Subscribe to several keys with one callback. The callback receives the key that changed along with its new and old
+	// values. Returns a function that can be called to unsubscribe from all of the keys.
+	public subscribeKeys<Key extends keyof State>(keys: readonly Key[], callback: StoreChangeListener<State, Key>) {
+		const unsubscribers = keys.map((key) => {
+			// Per-key callbacks only receive the new value, so remember the last value to pass on as the old one
+			let previous: State[Key];
+			const unsubscribe = this.subscribe(key, (newValue) => {
+				const oldValue = previous;
+				previous = newValue;
+				callback(key, newValue, oldValue);
+			});
+			previous = this.state[key];
+			return unsubscribe;
+		});
+		return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+	}
+
+	// Subscribe to every key in the store. The callback receives the key that changed along with its new and old values.
+	// Returns a function that can be called to unsubscribe.
+	public subscribeAll(callback: StoreChangeListener<State>) {
+		this._refreshAllDerived();
+		this.storeCallbacks.add(callback);
+		if (isDevelopment && this.options.devMode) this._devRecordOwner(callback);
+		return () => {
+			this.storeCallbacks.delete(callback);
+		};
+	}
+
+	// Subscribe to commits. The callback is called once for each setState, resolved batch or completed transaction that
+	// changed anything, with all of the changes together. It's called after the state is written but before any key
+	// listeners, so commits are reported in the order they happened even when a listener sets more state. Returns a
+	// function that can be called to unsubscribe.
+	public subscribeCommits(callback: StoreCommitListener<State>) {
+		this._refreshAllDerived();
+		this.commitCallbacks.add(callback);
+		if (isDevelopment && this.options.devMode) this._devRecordOwner(callback);
+		return () => {
+			this.commitCallbacks.delete(callback);
+		};
+	}
+
+	// Run an effect whenever any of the keys change. It's called with the values of the keys, in the same order, and their
+	// values from the last time it ran, and runs once per setState, resolved batch or completed transaction however many
+	// of the keys changed. It can return a cleanup function, which is called before it runs again and when it's disposed.
+	// debounceMs and throttleMs delay the effect, and fireImmediately runs it once straight away. Returns a function that
+	// can be called to dispose of the effect.
+	public effect<const Keys extends readonly (keyof State)[]>(
+		keys: Keys,
+		effect: StoreEffect<State, Keys>,
+		options: StoreEffectOptions = {},
+	) {
+		// Errors are reported against the effect that was passed in, rather than the runner's wrapper around it
+		const runner = createEffectRunner(this, keys, effect, options, (run) => {
+			try {
+				run();
+			} catch (error) {
+				this.options.onError(error, { key: undefined, listener: effect });
+			}
+		});
+		this._effects.add(runner);
+		return () => {
+			if (this._effects.delete(runner)) runner.dispose();
+		};
+	}
+
+	// Get the value at a dotted path, where the first segment is the key, such as 'settings.theme.color'. Array items are
+	// reached with their index, such as 'todos.0.title'. Going through undefined or null gives undefined.
+	public getIn<Path extends StorePath<State>>(path: Path): PathValue<State, Path> {
+		const { key, segments } = splitPath<State>(path);
+		return getAtPath(this.getState(key), segments) as PathValue<State, Path>;
+	}
+
+	// Set the value at a dotted path. The key's value isn't changed: every object and array along the path is copied and
+	// everything else is shared, so listeners that compare by reference only see a change where there is one. Missing
+	// objects along the path are created. A function is treated as an updater and called with the current value at the
+	// path.
+	public setIn<Path extends StorePath<State>>(path: Path, newValue: SetStateArgument<PathValue<State, Path>>) {
+		const { key, segments } = splitPath<State>(path);
+		this.setState(key, (prev) => {
+			const value =
+				typeof newValue === 'function'
+					? (newValue as (prev: PathValue<State, Path>) => PathValue<State, Path>)(
+							getAtPath(prev, segments) as PathValue<State, Path>,
+						)
+					: newValue;
+			return setAtPath(prev, segments, value) as State[keyof State];
+		});
+	}
+
+	// Subscribe to the value at a dotted path. The callback is only called when that value changes (compared with
+	// Object.is), not when something else in the same key changes. Returns a function that can be called to unsubscribe.
+	public subscribePath<Path extends StorePath<State>>(
+		path: Path,
+		callback: (newValue: PathValue<State, Path>, oldValue: PathValue<State, Path>) => void,
+	) {
+		const { key, segments } = splitPath<State>(path);
+		let previous = getAtPath(this.getSnapshot(key).value, segments) as PathValue<State, Path>;
+		return this.subscribe(key, (value) => {
+			const next = getAtPath(value, segments) as PathValue<State, Path>;
+			if (Object.is(next, previous)) return;
+			const oldValue = previous;
+			previous = next;
+			callback(next, oldValue);
+		});
+	}
+
+	// Get the current version of a key. The version starts at 0 and is incremented every time the key's listeners are
+	// notified of a change.
+	public getVersion<Key extends keyof State>(key: Key) {
+		return this._versions.get(key) ?? 0;
+	}
+
+	// Get a versioned snapshot of the committed state for a key. Unlike getState, this ignores deferred state in batch
+	// mode, so it only changes at the same moment listeners are notified. The same object is returned until the key
+	// changes, which is what useSyncExternalStore needs to avoid tearing.
+	public getSnapshot<Key extends keyof State>(key: Key): StoreSnapshot<State[Key]> {
+		if (this._derived.get(key)?.dirty) {
+			this._refreshDerived(key);
+		}
+		let snapshot = this._snapshots.get(key);
+		if (!snapshot) {
+			snapshot = { version: this.getVersion(key), value: this.state[key] };
+			this._snapshots.set(key, snapshot);
+		}
+		return snapshot as StoreSnapshot<State[Key]>;
+	}
+
+	// Get the snapshot used for server rendering and hydration. It's the committed snapshot, so a store that lives across
+	// several server renders renders its current state each time. Hydration stays consistent as long as the store isn't
+	// written to between the server state being hydrated and the client's first render.
+	public getServerSnapshot<Key extends keyof State>(key: Key): StoreSnapshot<State[Key]> {
+		return this.getSnapshot(key);
+	}
+
+	// Define a derived key. The getter receives a get function, and every key read through it becomes a dependency. The
+	// value is computed lazily: when a dependency changes, it's only recomputed straight away if the derived key has
+	// listeners, otherwise it's recomputed the next time it's read. Listeners are notified through the normal callbacks
+	// when the computed value changes according to the equality function. The store is returned with the derived key added
+	// to its type, so derive calls can be chained and the key can be used with getState and the hooks.
+	public derive<Name extends PropertyKey, Value>(
+		name: Name,
+		getter: (get: DerivedGetter<State>) => Value,
+	): Store<State & { [key in Name]: Value }> {
+		const key = name as keyof State;
+		this._derived.set(key, {
+			getter: getter as DerivedEntry<State>['getter'],
+			dependencies: new Set(),
+			dirty: true,
+			computing: false,
+			failed: false,
+		});
+		// If the key is already observed, its listeners need to hear about changes from now on
+		if (this.callbacks[key]?.size || this.storeCallbacks.size || this.commitCallbacks.size) {
+			this._refreshDerived(key, true);
+		}
+		return this as unknown as Store<State & { [key in Name]: Value }>;
+	}
+
+	// Check whether a key was defined with derive. Derived keys can be read and subscribed to, but not set.
+	public isDerived(key: keyof State) {
+		return this._derived.has(key);
+	}
+
+	// Serialize the state so it can be sent from the server to the client, usually by embedding it in the HTML. Derived keys
+	// are left out, since they're recomputed from the other keys. The result is safe to pass to JSON.stringify.
+	public dehydrate(): DehydratedState<State> {
+		const keys = (Object.keys(this.state) as (keyof State)[]).filter((key) => !this.isDerived(key));
+		const values = Object.fromEntries(keys.map((key) => [key, this.getState(key)]));
+		return { state: this.options.transformer.serialize(values) };
+	}
+
+	// Write dehydrated state into this store. The values are committed straight away, skipping middleware and batching, so
+	// they're in place before anything reads them. Keys that aren't in the dehydrated state keep their current values.
+	public hydrate(data: DehydratedState<State>) {
+		const values = this.options.transformer.deserialize(data.state) as Partial<State>;
+		const entries: [keyof State, State[keyof State]][] = [];
+		(Object.keys(values) as (keyof State)[]).forEach((key) => {
+			if (this.isDerived(key)) return;
+			const checked = this._validateWrite(key, values[key] as State[keyof State]);
+			if (checked) entries.push([key, checked.value]);
+		});
+		this._commitState(entries);
+	}
+
+	// Create a store from dehydrated state. Pass the same transformer that was used to dehydrate it, if it wasn't the
+	// default.
+	public static hydrate<State extends StateTree>(data: DehydratedState<State>, options?: StoreOptions<State>) {
+		const transformer = options?.transformer ?? defaultTransformer;
+		return new Store(transformer.deserialize(data.state) as State, options);
+	}
+
+	// Pass a write through the middleware chain. Whatever value reaches the end of the chain is applied.
+	private _runMiddleware<Key extends keyof State>(key: Key, value: State[Key]) {
+		const middleware = this.options.middleware;
+		if (middleware.length === 0) {
+			this._applyWrite(key, value);
+			return;
+		}
+		const prevValue = this.getState(key);
+		const run = (index: number, value: State[Key]) => {
+			const current = middleware[index];
+			if (!current) {
+				this._applyWrite(key, value);
+				return;
+			}
+			const write = { key, prevValue, value, store: this } as Parameters<StoreMiddleware<State>>[0];
+			current(write, (...args) => run(index + 1, args.length ? (args[0] as State[Key]) : value));
+		};
+		run(0, value);
+	}
+
+	// Apply a write that has made it through the middleware. Inside a transaction it goes to the current transaction layer,
+	// in batch mode it's deferred until the end of the tick, otherwise it's set straight away.
+	private _applyWrite<Key extends keyof State>(key: Key, newValue: State[Key]) {
+		if (this._disposed) return;
+		const checked = this._validateWrite(key, newValue);
+		if (!checked) return;
+		const value = checked.value;
+		// Frozen as soon as it's written, since a deferred value can already be read with getState
+		if (isDevelopment && this.options.devMode) deepFreeze(value);
+		const transaction = this._transactions[this._transactions.length - 1];
+		if (transaction) {
+			transaction.set(key, value);
+		} else if (this.options.batchUpdates) {
+			this._deferredState.set(key, value);
+			this._flagDeferredStateForResolution();
+		} else {
+			this._setState(key, value);
+		}
+	}
+
+	// Check a value against its key's schema. Returns the value to write, or null if the write should be dropped.
+	private _validateWrite<Key extends keyof State>(key: Key, value: State[Key]): { value: State[Key] } | null {
+		const schema = this.options.schema[key];
+		if (!schema) return { value };
+		const result = validateValue(schema, key, value);
+		if ('error' in result) {
+			this.options.onValidationError(result.error);
+			return this.options.validationMode === 'warn' ? { value } : null;
+		}
+		return { value: this.options.validationMode === 'coerce' ? (result.value as State[Key]) : value };
+	}
+
+	// Check the default values against the schema. There's no previous value to keep, so an invalid default throws unless
+	// the mode is warn.
+	private _validateDefaults() {
+		(Reflect.ownKeys(this.options.schema) as (keyof State)[]).forEach((key) => {
+			const schema = this.options.schema[key];
+			if (!schema) return;
+			const result = validateValue(schema, key, this.state[key]);
+			if ('error' in result) {
+				this.options.onValidationError(result.error);
+				if (this.options.validationMode !== 'warn') throw result.error;
+			} else if (this.options.validationMode === 'coerce' && !Object.is(result.value, this.state[key])) {
+				this.state[key] = result.value as State[keyof State];
+			}
+		});
+	}
+
 	// Set the main internal state. This is the core function that sets the state and triggers callbacks. This is also where
 	// the equality function is used to determine if the state has changed.
 	private _setState<Key extends keyof State>(key: Key, newValue: State[Key]) {
-		// determine equality and skip if equal
-		const oldValue = this.state[key];
-		if (this.options.equalityFn(oldValue, newValue, key)) {
-			return;
+		this._commitState([[key, newValue]]);
+	}
+
+	// Commit values for one or more keys. Every value is written before any callbacks are called, so a listener for one key
+	// never sees the old value of another key that's part of the same commit.
+	protected _commitState(entries: [keyof State, State[keyof State]][]) {
+		if (this._disposed) return;
+		// Listeners and derived keys can commit more state while this commit is in progress. Effects wait until the
+		// outermost commit has finished, so they run once with everything it set off.
+		this._commitDepth++;
+		try {
+			this._notifyCommit(entries);
+		} finally {
+			this._commitDepth--;
 		}
-		// All these checks before finally setting the state here
-		this.state[key] = newValue;
-		// Call all the callbacks for this key
-		const existingCallbacks = this.callbacks[key];
-		if (existingCallbacks) {
-			existingCallbacks.forEach((callback) => callback(newValue));
+		if (this._commitDepth === 0) this._effects.forEach((runner) => runner.settle());
+	}
+
+	// Write the values of one commit and call its listeners
+	private _notifyCommit(entries: [keyof State, State[keyof State]][]) {
+		const changes: StoreChange<State>[] = [];
+		entries.forEach(([key, newValue]) => {
+			// determine equality and skip if equal
+			const oldValue = this.state[key];
+			if (this.options.equalityFn(oldValue, newValue, key)) {
+				if (isDevelopment && this.options.devMode) this._devCheckSkipped(key, oldValue, newValue);
+				return;
+			}
+			// All these checks before finally setting the state here
+			this._writeValue(key, newValue);
+			changes.push({ key, newValue, oldValue });
+		});
+		if (changes.length && this.commitCallbacks.size) {
+			this.commitCallbacks.forEach((callback) => this._callListener(callback, undefined, changes));
 		}
+		changes.forEach(({ key, newValue, oldValue }) => {
+			// Call all the callbacks for this key
+			const existingCallbacks = this.callbacks[key];
+			if (existingCallbacks) {
+				existingCallbacks.forEach((callback) => this._callListener(callback, key, newValue));
+			}
+			// Then the store-wide callbacks
+			this.storeCallbacks.forEach((callback) => this._callListener(callback, key, key, newValue, oldValue));
+			// Let any derived keys that read this key know it has changed
+			this._invalidateDependents(key);
+		});
+	}
+
+	// Write a value to the committed state. The version is bumped and the cached snapshot dropped so the next read
+	// creates a new one.
+	private _writeValue(key: keyof State, value: State[keyof State]) {
+		this.state[key] = value;
+		if (isDevelopment && this.options.devMode) this._devTrack(value);
+		this._versions.set(key, this.getVersion(key) + 1);
+		this._snapshots.delete(key);
+	}
+
+	// Call a listener, passing anything it throws to the onError option so the rest of the listeners are still called
+	protected _callListener<Args extends unknown[]>(
+		listener: (...args: Args) => void,
+		key: keyof State | undefined,
+		...args: Args
+	) {
+		if (isDevelopment && this.options.devMode) this._devCheckLeak(listener, key);
+		try {
+			listener(...args);
+		} catch (error) {
+			this.options.onError(error, { key, listener });
+		}
+	}
+
+	// Freeze a stored value, and remember the contents of values that can't be frozen so mutations can be spotted
+	private _devTrack(value: unknown) {
+		deepFreeze(value);
+		const contents = contentsOf(value);
+		if (contents) this._devContents.set(value as object, contents);
+	}
+
+	// Warn when a write was skipped because it passed the current value again after mutating it
+	private _devCheckSkipped(key: keyof State, oldValue: unknown, newValue: unknown) {
+		if (oldValue !== newValue) return;
+		const recorded = this._devContents.get(newValue as object);
+		const contents = contentsOf(newValue);
+		if (!recorded || !contents || sameContents(recorded, contents)) return;
+		this._devContents.set(newValue as object, contents);
+		console.warn(
+			`setState("${String(key)}") was skipped because the value is the same object as the current value, but its contents have changed. It was probably mutated in place. Pass a new object instead.`,
+		);
+	}
+
+	// Remember which component subscribed a listener, if it was subscribed while a component was rendering, or with React
+	// 19 while its effects were running
+	private _devRecordOwner(listener: object) {
+		const owner = getCurrentOwner();
+		if (owner) this._devOwners.set(listener, owner);
+	}
+
+	// Warn once about a listener that's still subscribed after the component that subscribed it has unmounted
+	private _devCheckLeak(listener: object, key: keyof State | undefined) {
+		const owner = this._devOwners.get(listener);
+		if (!owner || this._devWarned.has(listener) || !isUnmounted(owner)) return;
+		this._devWarned.add(listener);
+		const name = ownerName(owner);
+		const target = key === undefined ? 'A store listener' : `A listener for "${String(key)}"`;
+		console.warn(
+			`${target} subscribed by ${name} is still subscribed after ${name} unmounted. Unsubscribe in the cleanup of the effect that subscribed, or use the hooks.`,
+		);
+	}
+
+	// Read a derived key, recomputing it first if it's dirty. While a batch or transaction is pending that touches one of
+	// its dependencies, the value is computed from the latest pending state without being committed, which keeps getState
+	// accurate in batch mode and inside transactions.
+	private _readDerived<Key extends keyof State>(key: Key): State[Key] {
+		const derived = this._derived.get(key)!;
+		if (derived.computing) {
+			throw new Error(`Circular dependency detected in derived key "${String(key)}"`);
+		}
+		if (this._hasPendingDependency(key)) {
+			derived.computing = true;
+			try {
+				return derived.getter((dependency) => this.getState(dependency)) as State[Key];
+			} finally {
+				derived.computing = false;
+			}
+		}
+		if (derived.dirty) {
+			this._refreshDerived(key);
+		}
+		return this.state[key];
+	}
+
+	// Derived keys are only kept up to date while observed. Store-wide and commit listeners observe all of them, so they're
+	// brought up to date before one is added.
+	private _refreshAllDerived() {
+		this._derived.forEach((derived, key) => {
+			if (derived.dirty) this._refreshDerived(key);
+		});
+	}
+
+	// Recompute a derived key and re-track its dependencies. When commit is set, the result is committed through
+	// _setState so listeners, versions and further dependents are all handled the same way as a regular key. Otherwise
+	// it's a lazy recompute for a read: nobody is listening, so only the value and version are updated, and reading
+	// never calls commit listeners or effects.
+	private _refreshDerived<Key extends keyof State>(key: Key, commit = false) {
+		const derived = this._derived.get(key)!;
+		const dependencies = new Set<keyof State>();
+		derived.computing = true;
+		let value: State[Key];
+		try {
+			value = derived.getter((dependency) => {
+				dependencies.add(dependency);
+				return this.getState(dependency);
+			}) as State[Key];
+		} finally {
+			derived.computing = false;
+		}
+		derived.dirty = false;
+		derived.failed = false;
+		// Swap the previously tracked dependencies for the ones read in this run
+		derived.dependencies.forEach((dependency) => this._dependents.get(dependency)?.delete(key));
+		dependencies.forEach((dependency) => {
+			const dependents = this._dependents.get(dependency);
+			if (dependents) {
+				dependents.add(key);
+			} else {
+				this._dependents.set(dependency, new Set([key]));
+			}
+		});
+		derived.dependencies = dependencies;
+		if (commit) {
+			this._setState(key, value);
+		} else if (!this.options.equalityFn(this.state[key], value, key)) {
+			this._writeValue(key, value);
+		}
+	}
+
+	// Mark the derived keys that depend on a key as dirty. Derived keys with listeners are recomputed immediately, the rest
+	// pass the invalidation on to their own dependents and wait until they're read.
+	private _invalidateDependents(key: keyof State) {
+		const dependents = this._dependents.get(key);
+		if (!dependents) return;
+		// Copy first because recomputing a derived key re-registers it in this set
+		Array.from(dependents).forEach((dependent) => {
+			const derived = this._derived.get(dependent)!;
+			if ((derived.dirty && !derived.failed) || derived.computing) return;
+			derived.dirty = true;
+			if (this.callbacks[dependent]?.size || this.storeCallbacks.size || this.commitCallbacks.size) {
+				// This runs while a commit is notifying, so a getter that throws goes to onError like a listener would,
+				// and the rest of the commit is still notified. The key stays dirty, so reading it throws again.
+				try {
+					this._refreshDerived(dependent, true);
+				} catch (error) {
+					derived.failed = true;
+					this.options.onError(error, { key: dependent, listener: derived.getter });
+					this._invalidateDependents(dependent);
+				}
+			} else {
+				this._invalidateDependents(dependent);
+			}
+		});
+	}
+
+	// Keys with a write that hasn't been committed yet, in the pending batch or an open transaction
+	protected _pendingKeys(): Set<keyof State> {
+		const keys = new Set(this._deferredState.keys());
+		this._transactions.forEach((layer) => layer.forEach((_, key) => keys.add(key)));
+		return keys;
+	}
+
+	// Check whether a derived key reads, directly or through other derived keys, a key with a pending batched or
+	// transactional update
+	private _hasPendingDependency(key: keyof State, pending?: Set<keyof State>): boolean {
+		if (this._deferredState.size === 0 && this._transactions.length === 0) return false;
+		const derived = this._derived.get(key);
+		if (!derived) return false;
+		const pendingKeys = pending ?? this._pendingKeys();
+		return Array.from(derived.dependencies).some(
+			(dependency) => pendingKeys.has(dependency) || this._hasPendingDependency(dependency, pendingKeys),
+		);
 	}
 
 	// This function is to determine the new value of the state given the SetStateArgument, which could be a function. If it's a
 	// function, it's called with the previous value, which needs to potentially come from deferred state if in batch mode (default).
-	private _resolveNewValue<Key extends keyof State>(key: Key, newValue: SetStateArgument<State[Key]>) {
+	protected _resolveNewValue<Key extends keyof State>(key: Key, newValue: SetStateArgument<State[Key]>) {
 		if (typeof newValue === 'function') {
 			const prevValue = this.getState(key);
 			// newValue has to be cast to a function because there's no way of knowing if the actual state type is a function.
@@ -118,31 +982,35 @@ export default class Store<State extends StateTree> {
 		return newValue;
 	}
 
-	// This function is used to batch updates. It sets a timeout to resolve the deferred state in the next tick. If a
-	// batch is already pending, it does nothing.
+	// This function is used to batch updates. It schedules the deferred state to be resolved with the scheduler option. If
+	// a batch is already pending, it does nothing.
 	private _flagDeferredStateForResolution = () => {
 		if (this._awaitingUpdate) return;
 		this._awaitingUpdate = true;
-		setTimeout(() => {
-			this._resolveDeferredState();
-			this._awaitingUpdate = false;
-		}, 0);
+		scheduleBatch(this.options.scheduler, () => {
+			// The batch may have been flushed already
+			if (this._awaitingUpdate) this.flush();
+		});
 	};
 
-	// This function is used to resolve the deferred state at the end of the tick in batch mode. It cycles through the
-	// deferredState entries and sets the state.
+	// This function is used to resolve the deferred state at the end of the tick in batch mode. It takes the deferredState
+	// entries and commits them together.
 	private _resolveDeferredState() {
-		// Cycle through the deferredState entries and set the state
-		this._deferredState.forEach(<Key extends keyof State>(newValue: State[Key], key: Key) => {
-			this._setState(key, newValue);
-		});
+		const entries = Array.from(this._deferredState);
+		// Clear before committing so a setState from a callback starts a new batch rather than being lost
 		this._deferredState.clear();
+		this._commitState(entries);
 	}
 }
 
-// This hook subscribes to a store and syncs the state with a react useState hook. It returns the current state and
-// unsubscribes when the component unmounts. There is an overload to return alternate types if the store is possibly
-// null. This is useful for when the store is being passed in as a prop or through a context.
+// Used in place of a real snapshot when the store is null. It's a constant so useSyncExternalStore sees a stable value.
+const nullSnapshot: StoreSnapshot<null> = { version: 0, value: null };
+const noopUnsubscribe = () => {};
+
+// This hook subscribes to a key using React's useSyncExternalStore, so every component reading the same key sees the
+// same value within a render, and no update can slip through between the first render and the subscription. It returns
+// the current state and unsubscribes when the component unmounts. There is an overload to return alternate types if the
+// store is possibly null. This is useful for when the store is being passed in as a prop or through a context.
 export function useStoreValue<State extends StateTree, Key extends keyof State>(
 	store: Store<State>,
 	key: Key,
@@ -152,22 +1020,17 @@ export function useStoreValue<State extends StateTree, Key extends keyof State>(
 	key: Key,
 ): State[Key] | null;
 export function useStoreValue<State extends StateTree, Key extends keyof State>(store: Store<State> | null, key: Key) {
-	// Use lazy initializer so a function value is stored as-is, not treated as an initializer
-	const [state, setState] = useState(() => store?.getState(key) ?? null);
+	const subscribe = useCallback(
+		(onStoreChange: () => void) => (store ? store.subscribe(key, onStoreChange) : noopUnsubscribe),
+		[store, key],
+	);
+	// Snapshots wrap the value, so function values are returned as-is rather than being treated as updaters
+	const getSnapshot = useCallback(() => (store ? store.getSnapshot(key) : nullSnapshot), [store, key]);
+	const getServerSnapshot = useCallback(() => (store ? store.getServerSnapshot(key) : nullSnapshot), [store, key]);
 
-	useEffect(() => {
-		if (!store) {
-			setState(() => null);
-			return;
-		}
-		// Set the initial state (wrap so function values are not treated as updaters)
-		setState(() => store.getState(key));
-		// Subscribe to the store for updates
-		const unsubscribe = store.subscribe(key, (next) => setState(() => next));
-		return () => unsubscribe();
-	}, [store, key]);
+	const snapshot = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
 
-	return state;
+	return snapshot.value;
 }
 
 // This hook subscribes to a store and returns a function that can be called to update the state. This hook does not
@@ -182,13 +1045,25 @@ export function useStoreUpdate<State extends StateTree, Key extends keyof State>
 	store: Store<State> | null,
 	key: Key,
 ): (newValue: SetStateArgument<State[Key]>) => void;
-export function useStoreUpdate<State extends StateTree, Key extends keyof State>(store: Store<State> | null, key: Key) {
+// With the draft option, the returned function takes a recipe that mutates a draft, like Store#update
+export function useStoreUpdate<State extends StateTree, Key extends keyof State>(
+	store: Store<State> | null,
+	key: Key,
+	options: { draft: true },
+): (recipe: DraftRecipe<State[Key]>) => void;
+export function useStoreUpdate<State extends StateTree, Key extends keyof State>(
+	store: Store<State> | null,
+	key: Key,
+	options?: { draft?: boolean },
+) {
+	const draft = options?.draft ?? false;
 	return useCallback(
-		(newValue: SetStateArgument<State[Key]>) => {
+		(newValue: SetStateArgument<State[Key]> | DraftRecipe<State[Key]>) => {
 			if (!store) return;
-			store.setState(key, newValue);
+			if (draft) store.update(key, newValue as DraftRecipe<State[Key]>);
+			else store.setState(key, newValue as SetStateArgument<State[Key]>);
 		},
-		[store, key],
+		[store, key, draft],
 	);
 }
 
@@ -211,6 +1086,274 @@ export function useStoreState<State extends StateTree, Key extends keyof State>(
 	return [state, updateState] as const;
 }
 
+// The values of several keys, in the same order as the keys
+export type StoreValues<State extends StateTree, Keys extends readonly (keyof State)[]> = {
+	[Index in keyof Keys]: Keys[Index] extends keyof State ? State[Keys[Index]] : never;
+};
+
+// Same as StoreValues, but every value may be null because the store may be null
+export type NullableStoreValues<State extends StateTree, Keys extends readonly (keyof State)[]> = {
+	[Index in keyof Keys]: Keys[Index] extends keyof State ? State[Keys[Index]] | null : never;
+};
+
+// This hook subscribes to several keys at once and returns their values as a tuple in the same order as the keys. The
+// tuple is only recreated when one of the keys changes, and React renders once however many of the keys changed in the
+// same batch. The keys array can be declared inline. There is an overload to return alternate types if the store is
+// possibly null, in which case every value is null.
+export function useStoreValues<State extends StateTree, const Keys extends readonly (keyof State)[]>(
+	store: Store<State>,
+	keys: Keys,
+): StoreValues<State, Keys>;
+export function useStoreValues<State extends StateTree, const Keys extends readonly (keyof State)[]>(
+	store: Store<State> | null,
+	keys: Keys,
+): NullableStoreValues<State, Keys>;
+export function useStoreValues<State extends StateTree, const Keys extends readonly (keyof State)[]>(
+	store: Store<State> | null,
+	keys: Keys,
+) {
+	// Keep the same keys array between renders while its contents are the same, so an inline array doesn't resubscribe
+	const keysRef = useRef(keys);
+	if (!shallowEqual(keysRef.current, keys)) {
+		keysRef.current = keys;
+	}
+	const stableKeys = keysRef.current;
+
+	const subscribe = useCallback(
+		(onStoreChange: () => void) =>
+			store ? store.subscribeKeys<keyof State>(stableKeys, onStoreChange) : noopUnsubscribe,
+		[store, stableKeys],
+	);
+
+	const [getValues, getServerValues] = useMemo(() => {
+		// Each getter memoizes on the snapshot references, so the tuple only changes when one of the keys changes
+		const createValues = (getStoreSnapshot: (store: Store<State>, key: keyof State) => StoreSnapshot<unknown>) => {
+			let memoSnapshots: StoreSnapshot<unknown>[] = [];
+			let memoValues: unknown[] = [];
+			return () => {
+				if (!store) {
+					if (memoValues.length !== stableKeys.length) memoValues = stableKeys.map(() => null);
+					return memoValues;
+				}
+				const snapshots = stableKeys.map((key) => getStoreSnapshot(store, key));
+				if (!shallowEqual(snapshots, memoSnapshots)) {
+					memoSnapshots = snapshots;
+					memoValues = snapshots.map((snapshot) => snapshot.value);
+				}
+				return memoValues;
+			};
+		};
+		return [
+			createValues((store, key) => store.getSnapshot(key)),
+			createValues((store, key) => store.getServerSnapshot(key)),
+		];
+	}, [store, stableKeys]);
+
+	return useSyncExternalStore(subscribe, getValues, getServerValues);
+}
+
+// This hook runs an effect on a store while the component is mounted, and disposes of it when the component unmounts
+// or the store or keys change. The effect and options can be inline: the latest effect is always the one that runs, and
+// the debounce and throttle times are read when the effect is created. The keys array can be declared inline.
+export function useStoreEffect<State extends StateTree, const Keys extends readonly (keyof State)[]>(
+	store: Store<State> | null,
+	keys: Keys,
+	effect: StoreEffect<State, Keys>,
+	options?: StoreEffectOptions,
+) {
+	const effectRef = useRef(effect);
+	const optionsRef = useRef(options);
+	useEffect(() => {
+		effectRef.current = effect;
+		optionsRef.current = options;
+	});
+
+	// Keep the same keys array between renders while its contents are the same, so an inline array doesn't recreate the
+	// effect
+	const keysRef = useRef(keys);
+	if (!shallowEqual(keysRef.current, keys)) {
+		keysRef.current = keys;
+	}
+	const stableKeys = keysRef.current;
+
+	useEffect(() => {
+		if (!store) return;
+		return store.effect(stableKeys, (values, prev) => effectRef.current(values, prev), optionsRef.current);
+	}, [store, stableKeys]);
+}
+
+// Compares two values one level deep. Objects and arrays are equal if they have the same keys and each value is
+// identical by Object.is. Useful as the equality function for selectors that return a new object or array every time.
+export function shallowEqual<T>(a: T, b: T) {
+	if (Object.is(a, b)) return true;
+	if (typeof a !== 'object' || a === null || typeof b !== 'object' || b === null) return false;
+	if (Array.isArray(a) !== Array.isArray(b)) return false;
+	const keysA = Object.keys(a) as (keyof T)[];
+	const keysB = Object.keys(b);
+	if (keysA.length !== keysB.length) return false;
+	return keysA.every((key) => Object.prototype.hasOwnProperty.call(b, key) && Object.is(a[key], b[key]));
+}
+
+// This hook subscribes to a key but only re-renders when the result of the selector changes, as determined by the
+// equality function (Object.is by default). The selector can be an inline function: the last rendered result is kept
+// and reused whenever a new result is equal to it, so a new function every render doesn't cause extra re-renders. There
+// is an overload to return alternate types if the store is possibly null. The selector is not called when the store is
+// null.
+export function useStoreSelector<State extends StateTree, Key extends keyof State, Selected>(
+	store: Store<State>,
+	key: Key,
+	selector: (value: State[Key]) => Selected,
+	equalityFn?: (a: Selected, b: Selected) => boolean,
+): Selected;
+export function useStoreSelector<State extends StateTree, Key extends keyof State, Selected>(
+	store: Store<State> | null,
+	key: Key,
+	selector: (value: State[Key]) => Selected,
+	equalityFn?: (a: Selected, b: Selected) => boolean,
+): Selected | null;
+export function useStoreSelector<State extends StateTree, Key extends keyof State, Selected>(
+	store: Store<State> | null,
+	key: Key,
+	selector: (value: State[Key]) => Selected,
+	equalityFn: (a: Selected, b: Selected) => boolean = Object.is,
+) {
+	// The last selection that was actually rendered. It's updated after commit so an abandoned render can't leak into it.
+	const rendered = useRef<{ hasValue: boolean; value: Selected | null }>({
+		hasValue: false,
+		value: null,
+	});
+
+	const subscribe = useCallback(
+		(onStoreChange: () => void) => (store ? store.subscribe(key, onStoreChange) : noopUnsubscribe),
+		[store, key],
+	);
+
+	const [getSelection, getServerSelection] = useMemo(() => {
+		// Each getter memoizes on the snapshot reference, so the selector only runs again when the key changes
+		const createSelection = (getStoreSnapshot: (store: Store<State>) => StoreSnapshot<State[Key]>) => {
+			let memoSnapshot: StoreSnapshot<State[Key]> | undefined;
+			let memoSelection: Selected | null = null;
+			return () => {
+				if (!store) return null;
+				const snapshot = getStoreSnapshot(store);
+				if (snapshot === memoSnapshot) return memoSelection;
+				const nextSelection = selector(snapshot.value);
+				memoSnapshot = snapshot;
+				memoSelection =
+					rendered.current.hasValue && equalityFn(rendered.current.value as Selected, nextSelection)
+						? rendered.current.value
+						: nextSelection;
+				return memoSelection;
+			};
+		};
+		return [
+			createSelection((store) => store.getSnapshot(key)),
+			createSelection((store) => store.getServerSnapshot(key)),
+		];
+	}, [store, key, selector, equalityFn]);
+
+	const selection = useSyncExternalStore(subscribe, getSelection, getServerSelection);
+
+	useEffect(() => {
+		// Nothing was selected while the store is null, so don't hand null to the equality function later
+		if (store) {
+			rendered.current = { hasValue: true, value: selection };
+		}
+	}, [store, selection]);
+
+	return selection;
+}
+
+// The props of a Provider from createStoreContext. Pass either a store that already exists, or the initial values (and
+// options) for a store that the Provider creates when it mounts and keeps for its lifetime. When createStoreContext was
+// given a createStore function, neither is needed. A store the Provider creates is hydrated with dehydratedState before
+// anything inside it renders.
+export type StoreContextProviderProps<State extends StateTree> = { children?: ReactNode } & (
+	| { store: Store<State>; initialValues?: never; options?: never; dehydratedState?: never }
+	| {
+			store?: never;
+			initialValues?: State;
+			options?: StoreOptions<State>;
+			dehydratedState?: DehydratedState<State>;
+	  }
+);
+
+// The result of createStoreContext. The hooks read the store from the nearest Provider, so their values are never null.
+export interface StoreContextBindings<State extends StateTree> {
+	Provider: (props: StoreContextProviderProps<State>) => ReactNode;
+	useStore: () => Store<State>;
+	useValue: <Key extends keyof State>(key: Key) => State[Key];
+	useUpdate: <Key extends keyof State>(key: Key) => (newValue: SetStateArgument<State[Key]>) => void;
+	useState: <Key extends keyof State>(key: Key) => [State[Key], (newValue: SetStateArgument<State[Key]>) => void];
+}
+
+// The result of createStoreProvider
+export interface StoreProviderBindings<State extends StateTree> {
+	// Creates a store for everything rendered inside it. Pass dehydratedState to hydrate the store before anything
+	// inside it renders, so the first client render matches the server.
+	Provider: (props: { dehydratedState?: DehydratedState<State>; children?: ReactNode }) => ReactNode;
+	// Get the store from the nearest Provider. Throws outside of a Provider.
+	useStore: () => Store<State>;
+}
+
+// The shared part of createStoreContext and createStoreProvider. factoryName is only used in the error the hooks throw
+// outside a Provider.
+const bindStoreContext = <State extends StateTree>(
+	factoryName: string,
+	createStore?: () => Store<State>,
+): StoreContextBindings<State> => {
+	const StoreContext = createContext<Store<State> | null>(null);
+
+	const Provider = (props: StoreContextProviderProps<State>) => {
+		// Only used when the Provider isn't given a store. Hydrating inside the initializer means the values are in place
+		// before any child reads them.
+		const [ownStore] = useState(() => {
+			if (props.store) return null;
+			const store = props.initialValues ? new Store(props.initialValues, props.options) : createStore?.();
+			if (!store) throw new Error(`The Provider from ${factoryName} needs a store or initialValues`);
+			if (props.dehydratedState) store.hydrate(props.dehydratedState);
+			return store;
+		});
+		return createElement(StoreContext.Provider, { value: props.store ?? ownStore }, props.children);
+	};
+
+	const useBoundStore = (hookName: string) => {
+		const store = useContext(StoreContext);
+		if (!store) {
+			throw new Error(`${hookName} must be used inside the Provider returned by the same ${factoryName} call`);
+		}
+		return store;
+	};
+
+	return {
+		Provider,
+		useStore: () => useBoundStore('useStore'),
+		useValue: (key) => useStoreValue(useBoundStore('useValue'), key),
+		useUpdate: (key) => useStoreUpdate(useBoundStore('useUpdate'), key),
+		useState: (key) => useStoreState(useBoundStore('useState'), key),
+	};
+};
+
+// Create a context for a store, along with a Provider and hooks that are bound to it. This replaces passing a nullable
+// store from useContext to the hooks. The hooks throw if they're used outside a Provider, and a nested Provider
+// overrides the outer one for everything inside it. With createStore, a Provider that isn't given a store or initial
+// values calls it once when it mounts.
+export function createStoreContext<State extends StateTree>(
+	createStore?: () => Store<State>,
+): StoreContextBindings<State> {
+	return bindStoreContext('createStoreContext', createStore);
+}
+
+// Create a Provider component and a hook to read its store, for server rendering. A module-level store is shared by
+// every request on the server, so instead each Provider calls createStore once when it mounts and keeps that store for
+// its lifetime. That gives every server render, and every client root, its own store.
+export function createStoreProvider<State extends StateTree>(
+	createStore: () => Store<State>,
+): StoreProviderBindings<State> {
+	const { Provider, useStore } = bindStoreContext('createStoreProvider', createStore);
+	return { Provider, useStore };
+}
+
 // Record stores are a special case of stores where the value of each key is of the same type. Additionally, you can
 // try to access keys that are not explicitly specified because any regular key will match this record type. The only
 // caveat of this approach is that all keys, including ones that definitely exist, return the value as possibly
@@ -228,6 +1371,450 @@ export interface RecordStoreState<T> {
 	[key: string | number | symbol]: T | undefined;
 }
 
-// A RecordStore is nothing but an extended Store with a specific type for the state tree. The generic type can be
-// inferred from the default value provided when instantiating the store.
-export class RecordStore<T> extends Store<RecordStoreState<T>> {}
+export interface RecordStoreOptions<T> extends StoreOptions<RecordStoreState<T>> {
+	// Secondary indexes, by name. Each one maps an item to the value it's indexed by, and is kept up to date as items
+	// change. A query whose where object has an entry with the same name uses the index rather than checking every item.
+	indexes?: { [name: string]: RecordIndexGetter<T> };
+}
+
+// The listener for RecordStore#subscribeMembership, called with the ids that were added and removed in one commit
+export type RecordMembershipListener = (added: string[], removed: string[]) => void;
+
+// A RecordStore is an extended Store with a specific type for the state tree. The generic type can be inferred from the
+// default value provided when instantiating the store. On top of the Store API it works like a collection of items: an
+// id is in the store while its value isn't undefined, so setting an item to undefined removes it just like delete.
+export class RecordStore<T> extends Store<RecordStoreState<T>> {
+	public membershipCallbacks: Set<RecordMembershipListener> = new Set();
+
+	// The committed ids, cached so useRecordKeys gets the same array until an id is added or removed
+	private _keysSnapshot: string[] | null = null;
+	private _indexes: Map<string, RecordIndex<T>> = new Map();
+
+	constructor(defaultValues: RecordStoreState<T>, options?: RecordStoreOptions<T>) {
+		const { indexes, ...storeOptions } = options ?? {};
+		super(defaultValues, storeOptions);
+		Object.entries(indexes ?? {}).forEach(([name, getValue]) => this.addIndex(name, getValue));
+		this.subscribeCommits((changes) => {
+			const added: string[] = [];
+			const removed: string[] = [];
+			changes.forEach(({ key, newValue, oldValue }) => {
+				this._indexes.forEach((index) => index.update(String(key), newValue));
+				if (newValue === undefined) {
+					// Drop the key rather than leaving it behind with an undefined value
+					delete this.state[key];
+					if (oldValue !== undefined) removed.push(String(key));
+				} else if (oldValue === undefined) {
+					added.push(String(key));
+				}
+			});
+			if (added.length === 0 && removed.length === 0) return;
+			this._keysSnapshot = null;
+			this.membershipCallbacks.forEach((callback) => this._callListener(callback, undefined, added, removed));
+		});
+	}
+
+	// The ids of every item, including writes that haven't been committed yet
+	public keys(): string[] {
+		const keys = new Set([...Object.keys(this.state), ...Array.from(this._pendingKeys(), String)]);
+		return Array.from(keys).filter((key) => this.getState(key) !== undefined);
+	}
+
+	public values(): T[] {
+		return this.keys().map((key) => this.getState(key) as T);
+	}
+
+	public entries(): [string, T][] {
+		return this.keys().map((key) => [key, this.getState(key) as T]);
+	}
+
+	public has(id: string | number) {
+		return this.getState(id) !== undefined;
+	}
+
+	public get size() {
+		return this.keys().length;
+	}
+
+	// Remove an item. Its listeners are called with undefined. Returns false if there was no item with the id.
+	public delete(id: string | number) {
+		if (!this.has(id)) return false;
+		this.setState(id, undefined);
+		return true;
+	}
+
+	// Remove every item in one commit
+	public clear() {
+		this.setMany(Object.fromEntries(this.keys().map((key) => [key, undefined])));
+	}
+
+	// Add or replace several items in one commit. An item set to undefined is removed.
+	public upsertMany(items: RecordStoreState<T>) {
+		// Wrapped so a function value isn't mistaken for an updater
+		const updates = Object.fromEntries(Object.entries(items).map(([key, value]) => [key, () => value]));
+		this.setMany(updates);
+	}
+
+	// Subscribe to ids being added or removed. Changes to the value of an item that stays in the store aren't reported.
+	// Returns a function that can be called to unsubscribe.
+	public subscribeMembership(callback: RecordMembershipListener) {
+		this.membershipCallbacks.add(callback);
+		return () => {
+			this.membershipCallbacks.delete(callback);
+		};
+	}
+
+	// Add a secondary index after the store has been created. It's built from the committed items straight away.
+	public addIndex(name: string, getValue: RecordIndexGetter<T>) {
+		const index = new RecordIndex(getValue);
+		Object.keys(this.state).forEach((id) => index.update(id, this.state[id]));
+		this._indexes.set(name, index);
+		return index;
+	}
+
+	public getIndex(name: string): RecordIndex<T> | undefined {
+		return this._indexes.get(name);
+	}
+
+	// Create a query for the ids of the items that match where, sorted by sortBy and cut off at limit. While the query has
+	// subscribers its result is updated from each commit by only looking at the items that changed.
+	public query(options: RecordQueryOptions<T> = {}) {
+		return new RecordQuery(this, options);
+	}
+
+	// Get the committed ids. The same array is returned until an id is added or removed.
+	public getKeysSnapshot(): string[] {
+		if (!this._keysSnapshot) {
+			this._keysSnapshot = Object.keys(this.state).filter((key) => this.state[key] !== undefined);
+		}
+		return this._keysSnapshot;
+	}
+}
+
+// A key in another store that a key in a linked store reads through to
+interface LinkedSource {
+	// eslint-disable-next-line @typescript-eslint/no-explicit-any
+	store: Store<any>;
+	key: PropertyKey;
+}
+
+// The shared part of CombinedStore and ChildStore, which mirror keys from other stores. Values are committed here as they
+// are committed to the source, so subscriptions, hooks and snapshots work the same as for any other key. While a key is
+// observed here, the source key is observed too, which keeps derived keys up to date and starts onObserved functions.
+abstract class LinkedStore<State extends StateTree> extends Store<State> {
+	private _links: (() => void)[] = [];
+	private _forwarded: Map<keyof State, () => void> = new Map();
+	// Set while _holdLinked is running, to collect the values mirrored from source commits
+	private _held: Map<keyof State, State[keyof State]> | null = null;
+
+	// The key a key reads through to, or null if the key belongs to this store
+	protected abstract _source(key: keyof State): LinkedSource | null;
+
+	// Mirror commits from a source store. toKey maps a key in the source to the key here, or null to ignore it.
+	protected _link<Source extends StateTree>(store: Store<Source>, toKey: (key: keyof Source) => keyof State | null) {
+		const unlink = store.subscribeCommits((changes) => {
+			const entries: [keyof State, State[keyof State]][] = [];
+			changes.forEach(({ key, newValue }) => {
+				const linkedKey = toKey(key);
+				if (linkedKey !== null) entries.push([linkedKey, newValue]);
+			});
+			if (this._held) {
+				entries.forEach(([key, value]) => this._held!.set(key, value));
+			} else if (entries.length) {
+				this._commitState(entries);
+			}
+		});
+		this._links.push(unlink);
+	}
+
+	// Run a callback that writes to several source stores, and mirror everything they commit in one commit here once it
+	// has finished
+	protected _holdLinked(callback: () => void) {
+		const held: Map<keyof State, State[keyof State]> = new Map();
+		this._held = held;
+		try {
+			callback();
+		} finally {
+			this._held = null;
+			if (held.size) this._commitState(Array.from(held));
+		}
+	}
+
+	// Reads go to the source, so they include its pending batch and transactions
+	public override getState<Key extends keyof State>(key: Key): State[Key] {
+		const source = this._source(key);
+		return source ? source.store.getState(source.key) : super.getState(key);
+	}
+
+	public override on<Key extends keyof State>(key: Key, callback: (newValue: State[Key]) => void) {
+		super.on(key, callback);
+		this._forward(key);
+	}
+
+	public override off<Key extends keyof State>(key: Key, callback: (newValue: State[Key]) => void) {
+		super.off(key, callback);
+		if (!this.callbacks[key]?.size) this._unforward(key);
+	}
+
+	public override dispose() {
+		this._links.forEach((unlink) => unlink());
+		this._links = [];
+		this._forwarded.forEach((unsubscribe) => unsubscribe());
+		this._forwarded.clear();
+		super.dispose();
+	}
+
+	// Observe the source of a key while it has subscribers here
+	protected _forward(key: keyof State) {
+		if (this._forwarded.has(key) || !this.callbacks[key]?.size) return;
+		const source = this._source(key);
+		if (source) this._forwarded.set(key, source.store.subscribe(source.key, noopListener));
+	}
+
+	protected _unforward(key: keyof State) {
+		this._forwarded.get(key)?.();
+		this._forwarded.delete(key);
+	}
+}
+
+const noopListener = () => {};
+
+// A store created with createChild. See Store#createChild.
+export class ChildStore<State extends StateTree> extends LinkedStore<State> {
+	// The keys with their own value in this store, and the keys that were given one in overrides
+	private _overridden: Set<keyof State>;
+	private _overrideKeys: Set<keyof State>;
+
+	constructor(
+		public parent: Store<State>,
+		overrides: Partial<State> = {},
+		options?: StoreOptions<State>,
+	) {
+		super({ ...inheritedValues(parent), ...overrides }, { ...parent.options, ...options });
+		this._overrideKeys = new Set(Reflect.ownKeys(overrides) as (keyof State)[]);
+		this._overridden = new Set(this._overrideKeys);
+		this._link(parent, (key) => (this._overridden.has(key) ? null : key));
+	}
+
+	public override setState<Key extends keyof State>(key: Key, newValue: SetStateArgument<State[Key]>) {
+		if (!this.isDerived(key) && !this._overridden.has(key)) {
+			this._overridden.add(key);
+			this._unforward(key);
+		}
+		super.setState(key, newValue);
+	}
+
+	// Keys from overrides go back to their value there, and every other key goes back to reading through to the parent
+	public override reset<Key extends keyof State>(key: Key) {
+		if (this._overrideKeys.has(key) || this.isDerived(key)) {
+			super.reset(key);
+		} else {
+			this.inherit(key);
+		}
+	}
+
+	public override resetAll() {
+		Array.from(this._overridden).forEach((key) => {
+			if (!this._overrideKeys.has(key)) this.inherit(key);
+		});
+		this.transaction(() => this._overrideKeys.forEach((key) => super.reset(key)));
+	}
+
+	// Whether a key has its own value in this store rather than reading through to the parent
+	public isOverridden(key: keyof State) {
+		return this._overridden.has(key);
+	}
+
+	// Stop overriding a key, so it reads through to the parent again
+	public inherit(key: keyof State) {
+		if (!this._overridden.delete(key)) return;
+		this._forward(key);
+		this._commitState([[key, this.parent.getState(key)]]);
+	}
+
+	protected _source(key: keyof State): LinkedSource | null {
+		return this._overridden.has(key) || this.isDerived(key) ? null : { store: this.parent, key };
+	}
+}
+
+const inheritedValues = <State extends StateTree>(parent: Store<State>) => {
+	const values = {} as State;
+	(Reflect.ownKeys(parent.state) as (keyof State)[]).forEach((key) => {
+		values[key] = parent.getState(key);
+	});
+	return values;
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type CombinableStores = Record<string, Store<any>>;
+
+type StateOf<S> = S extends Store<infer State> ? State : never;
+
+type UnionToIntersection<U> = (U extends unknown ? (arg: U) => void : never) extends (arg: infer I) => void ? I : never;
+
+// The state of a combined store, where each key of each store is prefixed with the store's name, such as 'user.name'
+export type CombinedState<Stores extends CombinableStores> =
+	UnionToIntersection<
+		{
+			[Name in keyof Stores & string]: {
+				[Key in keyof StateOf<Stores[Name]> & (string | number) as `${Name}.${Key}`]: StateOf<
+					Stores[Name]
+				>[Key];
+			};
+		}[keyof Stores & string]
+	> extends infer Combined
+		? { [Key in keyof Combined]: Combined[Key] }
+		: never;
+
+// A store created with combineStores. See combineStores.
+export class CombinedStore<Stores extends CombinableStores> extends LinkedStore<CombinedState<Stores>> {
+	// Writes to the original stores made inside transactions, with a layer for each nested transaction
+	private _staged: Map<keyof CombinedState<Stores>, unknown>[] = [];
+
+	constructor(
+		public stores: Stores,
+		options?: StoreOptions<CombinedState<Stores>>,
+	) {
+		super(combinedValues(stores) as CombinedState<Stores>, options);
+		Object.entries(stores).forEach(([name, store]) => {
+			this._link(store, (key) =>
+				typeof key === 'symbol' ? null : (`${name}.${String(key)}` as keyof CombinedState<Stores>),
+			);
+		});
+	}
+
+	// Writes go to the store that owns the key, through its middleware, validation and batching. Inside a transaction
+	// they're held here until it completes.
+	public override setState<Key extends keyof CombinedState<Stores>>(
+		key: Key,
+		newValue: SetStateArgument<CombinedState<Stores>[Key]>,
+	) {
+		const source = this._source(key);
+		const layer = this._staged[this._staged.length - 1];
+		if (source && layer) {
+			layer.set(key, this._resolveNewValue(key, newValue));
+		} else if (source) {
+			source.store.setState(source.key, newValue);
+		} else {
+			super.setState(key, newValue);
+		}
+	}
+
+	public override getState<Key extends keyof CombinedState<Stores>>(key: Key): CombinedState<Stores>[Key] {
+		for (let index = this._staged.length - 1; index >= 0; index--) {
+			if (this._staged[index]!.has(key)) return this._staged[index]!.get(key) as CombinedState<Stores>[Key];
+		}
+		return super.getState(key);
+	}
+
+	// Writes to the original stores are held until the outermost transaction completes, and thrown away if it throws.
+	// Then each original store gets its writes in a transaction of its own, and this store is notified once they've all
+	// been applied.
+	public override transaction<Result>(callback: () => Result): Result {
+		const layer: Map<keyof CombinedState<Stores>, unknown> = new Map();
+		this._staged.push(layer);
+		let result: Result;
+		try {
+			result = super.transaction(callback);
+		} finally {
+			this._staged.pop();
+		}
+		const parent = this._staged[this._staged.length - 1];
+		if (parent) {
+			layer.forEach((value, key) => parent.set(key, value));
+			return result;
+		}
+		const writes: Map<LinkedSource['store'], [PropertyKey, unknown][]> = new Map();
+		layer.forEach((value, key) => {
+			const source = this._source(key)!;
+			writes.set(source.store, [...(writes.get(source.store) ?? []), [source.key, value]]);
+		});
+		this._holdLinked(() => {
+			writes.forEach((entries, store) => {
+				store.transaction(() => {
+					// Wrapped so a function value isn't mistaken for an updater
+					entries.forEach(([key, value]) => store.setState(key, () => value));
+				});
+			});
+		});
+		return result;
+	}
+
+	protected _source(key: keyof CombinedState<Stores>): LinkedSource | null {
+		if (typeof key !== 'string' || this.isDerived(key)) return null;
+		const separator = key.indexOf('.');
+		const store = separator === -1 ? undefined : this.stores[key.slice(0, separator)];
+		return store ? { store, key: key.slice(separator + 1) } : null;
+	}
+}
+
+const combinedValues = (stores: CombinableStores) => {
+	const values: StateTree = {};
+	Object.entries(stores).forEach(([name, store]) => {
+		Object.keys(store.state).forEach((key) => {
+			values[`${name}.${key}`] = store.getState(key);
+		});
+	});
+	return values;
+};
+
+// Combine several stores into one, whose keys are the keys of each store prefixed with the store's name, such as
+// 'user.name' for the name key of the store passed as user. The combined store can be used like any other: reads and
+// subscriptions follow the original stores, and writes are passed on to them. The names can't contain dots.
+export function combineStores<Stores extends CombinableStores>(
+	stores: Stores,
+	options?: StoreOptions<CombinedState<Stores>>,
+) {
+	return new CombinedStore(stores, options);
+}
+
+const emptyKeys: string[] = [];
+
+// This hook returns the ids in a RecordStore and only re-renders when an id is added or removed, not when the value of
+// an item changes. Pair it with useStoreValue in each item's component so every item re-renders on its own.
+export function useRecordKeys<T>(recordStore: RecordStore<T>): string[];
+export function useRecordKeys<T>(recordStore: RecordStore<T> | null): string[] | null;
+export function useRecordKeys<T>(recordStore: RecordStore<T> | null) {
+	const subscribe = useCallback(
+		(onStoreChange: () => void) =>
+			recordStore ? recordStore.subscribeMembership(() => onStoreChange()) : noopUnsubscribe,
+		[recordStore],
+	);
+	const getSnapshot = useCallback(() => recordStore?.getKeysSnapshot() ?? emptyKeys, [recordStore]);
+	const keys = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+	return recordStore ? keys : null;
+}
+
+export { persist, getPersistHandle, createMemoryStorage, useStoreHydrated } from './persist';
+export type { PersistStorage, PersistOptions, PersistHandle } from './persist';
+export { createHistory, useStoreHistory } from './history';
+export type { HistoryOptions, HistoryStatus, StoreHistory } from './history';
+export { connectDevtools } from './devtools';
+export type {
+	DevtoolsAction,
+	DevtoolsConnection,
+	DevtoolsExtension,
+	DevtoolsMessage,
+	DevtoolsOptions,
+} from './devtools';
+export { syncAcrossContexts } from './sync';
+export type { SyncEntry, SyncMessage, SyncOptions, SyncStamp, SyncTransport } from './sync';
+export { defaultTransformer } from './ssr';
+export type { DehydratedState, StoreTransformer } from './ssr';
+export { RecordIndex, RecordQuery, useRecordQuery } from './query';
+export type { RecordIndexGetter, RecordQueryOptions, RecordQueryWhere } from './query';
+export { useStorePath, useStorePathState } from './path';
+export type { Path, PathValue, StorePath } from './path';
+export { produce } from './draft';
+export type { DraftRecipe } from './draft';
+export { useStoreResource } from './resource';
+export type { LoadOptions, ResourceFetcher, ResourceStatus, StoreResource, UseStoreResourceOptions } from './resource';
+export { StoreValidationError } from './schema';
+export type {
+	InferSchemaState,
+	StandardSchemaIssue,
+	StandardSchemaResult,
+	StandardSchemaV1,
+	StoreSchema,
+	ValidationMode,
+} from './schema';
+export type { StoreEffect, StoreEffectCleanup, StoreEffectOptions } from './effect';
@@ -0,0 +1,149 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import type Store from './index';
+import type { SetStateArgument, StateTree } from './index';
+
+// Values that paths don't go inside of
+type PathLeaf =
+	| string
+	| number
+	| boolean
+	| bigint
+	| symbol
+	| null
+	| undefined
+	| Date
+	| RegExp
+	| Map<unknown, unknown>
+	| Set<unknown>
+	| ((...args: never[]) => unknown);
+
+// Limits how deep paths are generated, so recursive types don't go on forever
+type PrevDepth = [never, 0, 1, 2, 3, 4, 5, 6];
+
+type IsAny<T> = 0 extends 1 & T ? true : false;
+
+// Every dotted path inside a value, such as 'theme' or 'theme.color' for { theme: { color: string } }. Array items are
+// reached with their index, such as 'todos.0.title'.
+export type Path<T, Depth extends number = 6> = [Depth] extends [never]
+	? never
+	: IsAny<T> extends true
+		? string
+		: T extends PathLeaf
+			? never
+			: T extends readonly (infer Item)[]
+				? `${number}` | `${number}.${Path<Item, PrevDepth[Depth]>}`
+				: {
+						[Key in keyof T & (string | number)]: `${Key}` | `${Key}.${Path<T[Key], PrevDepth[Depth]>}`;
+					}[keyof T & (string | number)];
+
+// A path into the state of a store. The first segment is the key.
+export type StorePath<State extends StateTree> = Path<State>;
+
+// The value of one segment of a path. Going through undefined or null gives undefined, like optional chaining.
+type PathChild<T, Segment extends string> = T extends null | undefined
+	? undefined
+	: T extends readonly (infer Item)[]
+		? Segment extends `${number}`
+			? Item
+			: never
+		: Segment extends keyof T
+			? T[Segment]
+			: Segment extends `${infer Index extends number}`
+				? Index extends keyof T
+					? T[Index]
+					: never
+				: never;
+
+// The type of the value at a path
+export type PathValue<T, P extends string> =
+	IsAny<T> extends true
+		? any
+		: P extends `${infer Head}.${infer Rest}`
+			? PathValue<PathChild<T, Head>, Rest>
+			: PathChild<T, P>;
+
+// Read the value at a path inside a value
+export const getAtPath = (value: unknown, segments: string[]): unknown =>
+	segments.reduce<unknown>(
+		(current, segment) => (current == null ? undefined : (current as Record<string, unknown>)[segment]),
+		value,
+	);
+
+// Set the value at a path inside a value without changing it. Every object and array along the path is copied and
+// everything else is shared with the original. If the value at the path is already the same, the original is returned.
+// Missing objects along the path are created, as arrays when the next segment is an index.
+export const setAtPath = (target: unknown, segments: string[], value: unknown): unknown => {
+	const [segment, ...rest] = segments;
+	if (segment === undefined) return value;
+	const container = target as Record<string, unknown> | unknown[] | null | undefined;
+	const current = container == null ? undefined : (container as Record<string, unknown>)[segment];
+	const next = setAtPath(current, rest, value);
+	if (container != null && Object.is(current, next) && segment in container) return container;
+	const copy: Record<string, unknown> = Array.isArray(container)
+		? ([...container] as unknown as Record<string, unknown>)
+		: container == null
+			? /^\d+$/.test(segment)
+				? ([] as unknown as Record<string, unknown>)
+				: {}
+			: { ...container };
+	copy[segment] = next;
+	return copy;
+};
+
+// Split a path into the store key and the segments inside the key's value
+export const splitPath = <State extends StateTree>(path: string) => {
+	const [key, ...segments] = path.split('.');
+	return { key: key as keyof State, segments };
+};
+
+// This hook returns the value at a path in the store, and only re-renders when that value changes. Changes elsewhere in
+// the same key don't cause a render. There is also an overload for when the store is possibly null.
+export function useStorePath<State extends StateTree, P extends StorePath<State>>(
+	store: Store<State>,
+	path: P,
+): PathValue<State, P>;
+export function useStorePath<State extends StateTree, P extends StorePath<State>>(
+	store: Store<State> | null,
+	path: P,
+): PathValue<State, P> | null;
+export function useStorePath<State extends StateTree, P extends StorePath<State>>(store: Store<State> | null, path: P) {
+	const subscribe = useCallback(
+		(onStoreChange: () => void) => (store ? store.subscribePath(path, () => onStoreChange()) : () => {}),
+		[store, path],
+	);
+	const getSnapshot = useCallback(() => {
+		if (!store) return null;
+		const { key, segments } = splitPath<State>(path);
+		return getAtPath(store.getSnapshot(key).value, segments);
+	}, [store, path]);
+	const getServerSnapshot = useCallback(() => {
+		if (!store) return null;
+		const { key, segments } = splitPath<State>(path);
+		return getAtPath(store.getServerSnapshot(key).value, segments);
+	}, [store, path]);
+	return useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+}
+
+// This hook combines useStorePath with a function that sets the value at the path, like useStoreState does for a key
+export function useStorePathState<State extends StateTree, P extends StorePath<State>>(
+	store: Store<State>,
+	path: P,
+): [PathValue<State, P>, (newValue: SetStateArgument<PathValue<State, P>>) => void];
+export function useStorePathState<State extends StateTree, P extends StorePath<State>>(
+	store: Store<State> | null,
+	path: P,
+): [PathValue<State, P> | null, (newValue: SetStateArgument<PathValue<State, P>>) => void];
+export function useStorePathState<State extends StateTree, P extends StorePath<State>>(
+	store: Store<State> | null,
+	path: P,
+) {
+	const value = useStorePath(store, path);
+	const setValue = useCallback(
+		(newValue: SetStateArgument<PathValue<State, P>>) => {
+			if (!store) return;
+			store.setIn(path, newValue);
+		},
+		[store, path],
+	);
+	return [value, setValue] as const;
+}
@@ -0,0 +1,321 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import type Store from './index';
+import type { StateTree } from './index';
+
+// The storage interface is the subset of the Web Storage API that persistence needs. Every method can return a promise,
+// so async storage such as React Native's AsyncStorage or IndexedDB wrappers can be used as well as localStorage.
+export interface PersistStorage {
+	getItem: (key: string) => string | null | Promise<string | null>;
+	setItem: (key: string, value: string) => void | Promise<void>;
+	removeItem: (key: string) => void | Promise<void>;
+}
+
+export interface PersistOptions<State extends StateTree> {
+	// The name is used as the storage key for the manifest, and as the prefix for the storage key of each state key
+	name: string;
+	// Defaults to localStorage when it's available
+	storage?: PersistStorage;
+	// Only persist these keys. All keys are persisted by default.
+	keys?: (keyof State)[];
+	// Never persist these keys
+	exclude?: (keyof State)[];
+	// Convert a single value to and from a string. Defaults to JSON.
+	serialize?: (value: unknown) => string;
+	deserialize?: (value: string) => unknown;
+	// The version of the persisted data. When it doesn't match the stored version, migrate is called with the stored
+	// values. Without a migrate function, stored data from another version is discarded.
+	version?: number;
+	migrate?: (persistedState: Record<string, unknown>, version: number) => Partial<State> | Promise<Partial<State>>;
+	// Wait this long after a change before writing, so rapid changes are written once. Changes are written straight away
+	// by default.
+	throttleMs?: number;
+	// Called when reading or writing storage fails. Defaults to console.error.
+	onError?: (error: unknown) => void;
+}
+
+export interface PersistHandle {
+	// Resolves once the stored values have been applied to the store. It never rejects: hydration errors are passed to
+	// onError and the store keeps its current values.
+	readonly hydrated: Promise<void>;
+	readonly isHydrated: boolean;
+	// Register a callback for when hydration finishes. Returns a function that can be called to unsubscribe.
+	onHydrate: (callback: () => void) => () => void;
+	// Write any changes that are waiting on the throttle straight away
+	flush: () => Promise<void>;
+	// Remove everything this store has written to storage
+	clear: () => Promise<void>;
+	// Stop writing changes to storage
+	stop: () => void;
+}
+
+// The manifest records the version of the stored data and which keys have been written, so hydration knows what to read
+interface PersistManifest {
+	version: number;
+	keys: string[];
+}
+
+// Each persisted store is registered here so useStoreHydrated can find its handle from the store alone
+const handles = new WeakMap<object, PersistHandle>();
+
+// Run a callback with a value that may or may not be a promise, staying synchronous when it isn't. This is what lets
+// synchronous storage hydrate the store before persist returns.
+function chain<T, Result>(value: T | Promise<T>, callback: (value: T) => Result | Promise<Result>) {
+	return isPromiseLike(value) ? value.then(callback) : callback(value);
+}
+
+function isPromiseLike<T>(value: T | Promise<T>): value is Promise<T> {
+	return typeof (value as Promise<T> | null)?.then === 'function';
+}
+
+// Like Promise.all, but synchronous when none of the values are promises
+function all<T>(values: (T | Promise<T>)[]): T[] | Promise<T[]> {
+	return values.some(isPromiseLike) ? Promise.all(values) : (values as T[]);
+}
+
+const getDefaultStorage = () => {
+	if (typeof localStorage === 'undefined') {
+		throw new Error('persist: no storage was provided and localStorage is not available');
+	}
+	return localStorage;
+};
+
+// Persist a store to storage. Stored values are read and applied to the store straight away (synchronously if the
+// storage is synchronous), then every change to a persisted key is written back. Each key is stored under its own
+// storage key, so only the keys that changed are written.
+export function persist<State extends StateTree>(store: Store<State>, options: PersistOptions<State>): PersistHandle {
+	const {
+		name,
+		storage = getDefaultStorage(),
+		serialize = JSON.stringify,
+		deserialize = JSON.parse,
+		version = 0,
+		migrate,
+		throttleMs = 0,
+		onError = console.error,
+	} = options;
+
+	const itemKey = (key: PropertyKey) => `${name}:${String(key)}`;
+	// Symbols can't be stored, and derived keys are recomputed rather than stored
+	const isPersisted = (key: keyof State) =>
+		typeof key !== 'symbol' &&
+		!store.isDerived(key) &&
+		(!options.keys || options.keys.includes(key)) &&
+		!options.exclude?.includes(key);
+
+	let isHydrated = false;
+	let stopped = false;
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const hydrateCallbacks = new Set<() => void>();
+	// Keys that are in storage, and keys that have changed but haven't been written yet
+	const storedKeys = new Set<string>();
+	const pendingKeys = new Set<keyof State>();
+	// The last value read from or written to storage for each key. Changes that leave a key at this value (such as the
+	// store being hydrated) don't need writing.
+	const storedValues = new Map<keyof State, unknown>();
+
+	const writeManifest = () => {
+		const manifest: PersistManifest = { version, keys: Array.from(storedKeys) };
+		return storage.setItem(name, JSON.stringify(manifest));
+	};
+
+	const flush = async (): Promise<void> => {
+		if (timer) {
+			clearTimeout(timer);
+			timer = undefined;
+		}
+		if (!isHydrated) {
+			return handle.hydrated.then(flush);
+		}
+		const keys = Array.from(pendingKeys);
+		pendingKeys.clear();
+		// The manifest only needs writing when the set of stored keys changes
+		let manifestChanged = false;
+		try {
+			const writes = keys.map((key) => {
+				const value = store.getState(key);
+				storedValues.set(key, value);
+				if (value === undefined) {
+					manifestChanged = storedKeys.delete(String(key)) || manifestChanged;
+					return storage.removeItem(itemKey(key));
+				}
+				if (!storedKeys.has(String(key))) {
+					storedKeys.add(String(key));
+					manifestChanged = true;
+				}
+				return storage.setItem(itemKey(key), serialize(value));
+			});
+			if (manifestChanged) {
+				writes.push(writeManifest());
+			}
+			await Promise.all(writes);
+		} catch (error) {
+			onError(error);
+		}
+	};
+
+	const schedule = () => {
+		if (!isHydrated || stopped) return;
+		if (throttleMs <= 0) {
+			void flush();
+		} else if (!timer) {
+			timer = setTimeout(() => {
+				timer = undefined;
+				void flush();
+			}, throttleMs);
+		}
+	};
+
+	// Start listening before hydration so changes made while async storage is being read aren't missed. Those changes
+	// win over the stored values.
+	const unsubscribe = store.subscribeAll((key, newValue) => {
+		if (!isPersisted(key)) return;
+		if (storedValues.has(key) && storedValues.get(key) === newValue) return;
+		pendingKeys.add(key);
+		schedule();
+	});
+
+	// Apply stored values to the store, skipping keys that have changed since persist was called
+	const apply = (values: Partial<State>) => {
+		const updates: Partial<State> = {};
+		(Object.keys(values) as (keyof State)[]).forEach((key) => {
+			if (!isPersisted(key) || pendingKeys.has(key)) return;
+			storedValues.set(key, values[key]);
+			updates[key] = values[key];
+		});
+		// Wrapped so a stored function value isn't mistaken for an updater
+		const wrapped = Object.fromEntries(Object.entries(updates).map(([key, value]) => [key, () => value]));
+		store.setMany(wrapped as Parameters<Store<State>['setMany']>[0]);
+	};
+
+	// Remove everything listed in the manifest that isn't in the given values
+	const removeStale = (keys: string[], values: Record<string, unknown>) =>
+		all(keys.filter((key) => !(key in values)).map((key) => storage.removeItem(itemKey(key))));
+
+	const hydrate = () =>
+		chain(storage.getItem(name), (rawManifest) => {
+			if (rawManifest === null) return;
+			const manifest = JSON.parse(rawManifest) as PersistManifest;
+			return chain(all(manifest.keys.map((key) => storage.getItem(itemKey(key)))), (items) => {
+				const persisted: Record<string, unknown> = {};
+				manifest.keys.forEach((key, index) => {
+					const item = items[index];
+					if (item !== null && item !== undefined) persisted[key] = deserialize(item);
+				});
+				if (manifest.version === version) {
+					manifest.keys.forEach((key) => storedKeys.add(key));
+					apply(persisted as Partial<State>);
+					return;
+				}
+				if (!migrate) {
+					// Data from another version can't be trusted without a migration, so it's removed
+					return chain(removeStale(manifest.keys, {}), () => storage.removeItem(name));
+				}
+				return chain(migrate(persisted, manifest.version), (migrated) => {
+					apply(migrated);
+					// Everything is rewritten under the new version
+					Object.keys(migrated).forEach((key) => {
+						if (isPersisted(key)) pendingKeys.add(key);
+					});
+					return chain(removeStale(manifest.keys, migrated), () => writeManifest());
+				});
+			});
+		});
+
+	const finishHydration = () => {
+		isHydrated = true;
+		hydrateCallbacks.forEach((callback) => callback());
+		hydrateCallbacks.clear();
+		// Write anything that changed during hydration, or was migrated
+		if (pendingKeys.size) schedule();
+	};
+
+	let hydrated: Promise<void>;
+	try {
+		const result = hydrate();
+		if (isPromiseLike(result)) {
+			hydrated = result.catch(onError).then(finishHydration);
+		} else {
+			finishHydration();
+			hydrated = Promise.resolve();
+		}
+	} catch (error) {
+		onError(error);
+		finishHydration();
+		hydrated = Promise.resolve();
+	}
+
+	const handle: PersistHandle = {
+		hydrated,
+		get isHydrated() {
+			return isHydrated;
+		},
+		onHydrate: (callback) => {
+			hydrateCallbacks.add(callback);
+			return () => {
+				hydrateCallbacks.delete(callback);
+			};
+		},
+		flush,
+		clear: async () => {
+			const keys = Array.from(storedKeys);
+			storedKeys.clear();
+			storedValues.clear();
+			try {
+				await Promise.all([...keys.map((key) => storage.removeItem(itemKey(key))), storage.removeItem(name)]);
+			} catch (error) {
+				onError(error);
+			}
+		},
+		stop: () => {
+			stopped = true;
+			if (timer) clearTimeout(timer);
+			unsubscribe();
+			handles.delete(store);
+		},
+	};
+
+	handles.set(store, handle);
+	return handle;
+}
+
+// Get the persistence handle for a store, if persist has been called on it
+export function getPersistHandle<State extends StateTree>(store: Store<State>) {
+	return handles.get(store);
+}
+
+// A simple storage that keeps everything in a Map. Useful for tests, and anywhere there's no real storage to use.
+export function createMemoryStorage(initialItems?: Record<string, string>) {
+	const items = new Map(Object.entries(initialItems ?? {}));
+	return {
+		getItem: (key: string) => items.get(key) ?? null,
+		setItem: (key: string, value: string) => {
+			items.set(key, value);
+		},
+		removeItem: (key: string) => {
+			items.delete(key);
+		},
+		clear: () => items.clear(),
+		get size() {
+			return items.size;
+		},
+	};
+}
+
+const alwaysHydrated = () => () => {};
+const getServerHydrated = () => false;
+
+// This hook returns whether a persisted store has finished hydrating, and re-renders when it does. Stores that aren't
+// persisted are always hydrated. A null store is never hydrated. On the server and during hydration of server rendered
+// markup it returns false, because storage is only read on the client.
+export function useStoreHydrated<State extends StateTree>(store: Store<State> | null) {
+	const subscribe = useCallback(
+		(onHydrate: () => void) => (store && handles.get(store)?.onHydrate(onHydrate)) || alwaysHydrated(),
+		[store],
+	);
+	const getSnapshot = useCallback(() => {
+		if (!store) return false;
+		return handles.get(store)?.isHydrated ?? true;
+	}, [store]);
+
+	return useSyncExternalStore(subscribe, getSnapshot, getServerHydrated);
+}
@@ -0,0 +1,215 @@
+import { useCallback, useRef, useSyncExternalStore } from 'react';
+import type { RecordStore, StoreChange, RecordStoreState } from './index';
+
+// Computes the value an item is indexed by. Items with the same value share a bucket in the index.
+export type RecordIndexGetter<T> = (item: T, id: string) => unknown;
+
+// Either a predicate, or an object whose entries must all match. Each entry is checked against the index with that name
+// if there is one, otherwise against the item's field with that name.
+export type RecordQueryWhere<T> = ((item: T, id: string) => boolean) | { [field: string]: unknown };
+
+export interface RecordQueryOptions<T> {
+	where?: RecordQueryWhere<T>;
+	// A field to sort by in ascending order, or a comparator. Items that compare equal, or every item without sortBy, are
+	// ordered by id.
+	sortBy?: (keyof T & string) | ((a: T, b: T) => number);
+	// The most ids to return
+	limit?: number;
+}
+
+// A secondary index over a RecordStore. It maps each indexed value to the ids of the items with that value, and is kept
+// up to date as items change.
+export class RecordIndex<T> {
+	private _buckets: Map<unknown, Set<string>> = new Map();
+	private _values: Map<string, unknown> = new Map();
+
+	constructor(public getValue: RecordIndexGetter<T>) {}
+
+	// The ids of the items with a value. The returned set must not be modified.
+	public get(value: unknown): ReadonlySet<string> {
+		return this._buckets.get(value) ?? emptySet;
+	}
+
+	// Move an item to the bucket for its new value, or remove it when the item is undefined
+	public update(id: string, item: T | undefined) {
+		if (this._values.has(id)) {
+			const previous = this._values.get(id);
+			const bucket = this._buckets.get(previous)!;
+			bucket.delete(id);
+			if (bucket.size === 0) this._buckets.delete(previous);
+			this._values.delete(id);
+		}
+		if (item === undefined) return;
+		const value = this.getValue(item, id);
+		this._values.set(id, value);
+		const bucket = this._buckets.get(value);
+		if (bucket) bucket.add(id);
+		else this._buckets.set(value, new Set([id]));
+	}
+}
+
+const emptySet: ReadonlySet<string> = new Set();
+
+// The ids of the items in a RecordStore that match a query, in order. Like the indexes, queries only see committed items.
+// While the query has subscribers, it listens to the store and updates its result from each commit, only looking at the
+// items that changed. Without subscribers it recomputes the result when it's read.
+export class RecordQuery<T> {
+	private _callbacks: Set<() => void> = new Set();
+	// Every matching id in order, before the limit is applied. Only kept while subscribed.
+	private _ids: string[] | null = null;
+	// The result, which stays the same array until the ids or their order change
+	private _snapshot: string[] = [];
+	private _unsubscribe: (() => void) | null = null;
+
+	constructor(
+		public store: RecordStore<T>,
+		public options: RecordQueryOptions<T>,
+	) {}
+
+	// Get the matching ids. The same array is returned until the result or its order changes.
+	public getSnapshot(): string[] {
+		if (!this._ids) this._setSnapshot(this._compute());
+		return this._snapshot;
+	}
+
+	// Get the matching items, in the same order as getSnapshot
+	public getItems(): T[] {
+		return this.getSnapshot().map((id) => this.store.state[id] as T);
+	}
+
+	// Subscribe to changes of the result. Returns a function that can be called to unsubscribe.
+	public subscribe(callback: () => void) {
+		this._callbacks.add(callback);
+		if (!this._unsubscribe) {
+			this._ids = this._compute();
+			this._setSnapshot(this._ids);
+			this._unsubscribe = this.store.subscribeCommits((changes) => this._update(changes));
+		}
+		return () => {
+			this._callbacks.delete(callback);
+			if (this._callbacks.size === 0 && this._unsubscribe) {
+				this._unsubscribe();
+				this._unsubscribe = null;
+				this._ids = null;
+			}
+		};
+	}
+
+	// Check an item against where
+	private _matches(item: T, id: string) {
+		const { where } = this.options;
+		if (!where) return true;
+		if (typeof where === 'function') return where(item, id);
+		return Object.keys(where).every((field) => {
+			const index = this.store.getIndex(field);
+			const value = index ? index.getValue(item, id) : (item as Record<string, unknown>)[field];
+			return Object.is(value, where[field]);
+		});
+	}
+
+	private _compare = (a: string, b: string) => {
+		const { sortBy } = this.options;
+		const itemA = this.store.state[a] as T;
+		const itemB = this.store.state[b] as T;
+		let result = 0;
+		if (typeof sortBy === 'function') {
+			result = sortBy(itemA, itemB);
+		} else if (sortBy) {
+			const valueA = itemA[sortBy];
+			const valueB = itemB[sortBy];
+			result = valueA < valueB ? -1 : valueA > valueB ? 1 : 0;
+		}
+		return result || (a < b ? -1 : a > b ? 1 : 0);
+	};
+
+	// Work out the whole result from scratch. When where uses an index, only the items in its bucket are checked.
+	private _compute() {
+		const { where } = this.options;
+		let candidates: string[] | undefined;
+		if (where && typeof where === 'object') {
+			Object.keys(where).forEach((field) => {
+				const index = this.store.getIndex(field);
+				if (!index) return;
+				const bucket = Array.from(index.get(where[field]));
+				if (!candidates || bucket.length < candidates.length) candidates = bucket;
+			});
+		}
+		const ids = (candidates ?? Object.keys(this.store.state)).filter((id) => {
+			const item = this.store.state[id];
+			return item !== undefined && this._matches(item as T, id);
+		});
+		return ids.sort(this._compare);
+	}
+
+	// Apply the changes from one commit to the result. Every changed item is taken out first, so the rest are still in
+	// order, then each one that matches is put back in its sorted position with a binary search.
+	private _update(changes: StoreChange<RecordStoreState<T>>[]) {
+		const changed = new Set(changes.map(({ key }) => String(key)));
+		const ids = this._ids!.filter((id) => !changed.has(id));
+		this._ids = ids;
+		changes.forEach(({ key, newValue }) => {
+			const id = String(key);
+			if (newValue === undefined || !this._matches(newValue, id)) return;
+			let low = 0;
+			let high = ids.length;
+			while (low < high) {
+				const middle = (low + high) >> 1;
+				if (this._compare(ids[middle]!, id) < 0) low = middle + 1;
+				else high = middle;
+			}
+			ids.splice(low, 0, id);
+		});
+		if (this._setSnapshot(ids)) this._callbacks.forEach((callback) => callback());
+	}
+
+	// Apply the limit and replace the snapshot if the result is different. Returns whether it was replaced.
+	private _setSnapshot(ids: string[]) {
+		const { limit } = this.options;
+		const next = limit === undefined ? ids : ids.slice(0, limit);
+		if (next.length === this._snapshot.length && next.every((id, i) => id === this._snapshot[i])) return false;
+		this._snapshot = next === ids ? [...ids] : next;
+		return true;
+	}
+}
+
+const emptyIds: string[] = [];
+const noopUnsubscribe = () => {};
+
+// A function where and sortBy are compared by reference, and a where object by its entries
+const isSameQuery = <T>(a: RecordQueryOptions<T>, b: RecordQueryOptions<T>) => {
+	if (a.sortBy !== b.sortBy || a.limit !== b.limit) return false;
+	if (a.where === b.where) return true;
+	if (!a.where || !b.where || typeof a.where === 'function' || typeof b.where === 'function') return false;
+	const aWhere = a.where;
+	const bWhere = b.where;
+	const keys = Object.keys(aWhere);
+	return keys.length === Object.keys(bWhere).length && keys.every((key) => Object.is(aWhere[key], bWhere[key]));
+};
+
+// This hook returns the ids of the items in a RecordStore that match a query, and only re-renders when the ids or their
+// order change. Changes to an item that don't move it in or out of the result, or change its position, don't cause a
+// render. A where object can be written inline, but a where or sortBy function should be defined outside the component
+// or memoized, otherwise the query is rebuilt on every render.
+export function useRecordQuery<T>(recordStore: RecordStore<T>, options: RecordQueryOptions<T>): string[];
+export function useRecordQuery<T>(recordStore: RecordStore<T> | null, options: RecordQueryOptions<T>): string[] | null;
+export function useRecordQuery<T>(recordStore: RecordStore<T> | null, options: RecordQueryOptions<T>) {
+	const queryRef = useRef<RecordQuery<T> | null>(null);
+	if (!recordStore) {
+		queryRef.current = null;
+	} else if (
+		!queryRef.current ||
+		queryRef.current.store !== recordStore ||
+		!isSameQuery(queryRef.current.options, options)
+	) {
+		queryRef.current = recordStore.query(options);
+	}
+	const query = queryRef.current;
+
+	const subscribe = useCallback(
+		(onStoreChange: () => void) => (query ? query.subscribe(onStoreChange) : noopUnsubscribe),
+		[query],
+	);
+	const getSnapshot = useCallback(() => query?.getSnapshot() ?? emptyIds, [query]);
+	const ids = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+	return recordStore ? ids : null;
+}
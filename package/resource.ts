@@ -0,0 +1,236 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import type Store from './index';
+import type { StateTree, StoreSnapshot } from './index';
+
+export type ResourceStatus = 'idle' | 'loading' | 'success' | 'error';
+
+// The status of a key that's loaded with store.load. data is the value of the key, so it's still there while a refetch
+// is loading or after one fails.
+export interface StoreResource<T> {
+	status: ResourceStatus;
+	data: T;
+	error: unknown;
+}
+
+// Loads the value for a key. The signal is aborted when the request is superseded by a newer one.
+export type ResourceFetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+export interface LoadOptions {
+	// Share a request that's already in flight instead of starting a new one. Defaults to true.
+	dedupe?: boolean;
+	// How long a successful load stays fresh, in milliseconds. Loading a fresh key doesn't make a request. Defaults to 0.
+	staleTime?: number;
+}
+
+interface ResourceEntry {
+	status: ResourceStatus;
+	error: unknown;
+	// Set while a request is in flight. Starting a new request aborts the previous one.
+	controller: AbortController | null;
+	// The latest request, which always resolves once the request has been handled
+	request: Promise<void> | null;
+	// The last fetcher and options, used by refetch and invalidate
+	fetcher: ResourceFetcher<unknown> | null;
+	options: LoadOptions;
+	updatedAt: number | null;
+	invalidated: boolean;
+	// Whether a load has ever succeeded, which decides whether Suspense is needed
+	succeeded: boolean;
+	// Set when a suspended render started the load, so the effect that runs once it has resolved doesn't load it again
+	startedBySuspense: boolean;
+	callbacks: Set<() => void>;
+	// Cached for useSyncExternalStore, along with the key snapshot it was made from
+	snapshot: StoreResource<unknown> | null;
+	keySnapshot: StoreSnapshot<unknown> | null;
+}
+
+const resources = new WeakMap<object, Map<PropertyKey, ResourceEntry>>();
+
+const getEntry = (store: object, key: PropertyKey) => {
+	let entries = resources.get(store);
+	if (!entries) {
+		entries = new Map();
+		resources.set(store, entries);
+	}
+	let entry = entries.get(key);
+	if (!entry) {
+		entry = {
+			status: 'idle',
+			error: undefined,
+			controller: null,
+			request: null,
+			fetcher: null,
+			options: {},
+			updatedAt: null,
+			invalidated: false,
+			succeeded: false,
+			startedBySuspense: false,
+			callbacks: new Set(),
+			snapshot: null,
+			keySnapshot: null,
+		};
+		entries.set(key, entry);
+	}
+	return entry;
+};
+
+const setStatus = (entry: ResourceEntry, status: ResourceStatus, error: unknown) => {
+	entry.status = status;
+	entry.error = error;
+	entry.snapshot = null;
+	entry.callbacks.forEach((callback) => callback());
+};
+
+// Get the status of a key. The same object is returned until the status or the key's value changes.
+export function getResource<State extends StateTree, Key extends keyof State>(
+	store: Store<State>,
+	key: Key,
+): StoreResource<State[Key]> {
+	const entry = getEntry(store, key);
+	const keySnapshot = store.getSnapshot(key);
+	if (!entry.snapshot || entry.keySnapshot !== keySnapshot) {
+		entry.snapshot = { status: entry.status, data: keySnapshot.value, error: entry.error };
+		entry.keySnapshot = keySnapshot;
+	}
+	return entry.snapshot as StoreResource<State[Key]>;
+}
+
+// Resolve once the key has settled. If the request is superseded, this waits for the one that replaced it.
+const settled = <State extends StateTree, Key extends keyof State>(
+	store: Store<State>,
+	key: Key,
+): Promise<StoreResource<State[Key]>> => {
+	const entry = getEntry(store, key);
+	const request = entry.request;
+	if (!request) return Promise.resolve(getResource(store, key));
+	return request.then(() => (entry.request === request ? getResource(store, key) : settled(store, key)));
+};
+
+const startRequest = <State extends StateTree, Key extends keyof State>(store: Store<State>, key: Key) => {
+	const entry = getEntry(store, key);
+	const fetcher = entry.fetcher as ResourceFetcher<State[Key]>;
+	entry.controller?.abort();
+	const controller = new AbortController();
+	entry.controller = controller;
+	entry.invalidated = false;
+	entry.request = Promise.resolve()
+		.then(() => fetcher(controller.signal))
+		.then(
+			(data) => {
+				if (entry.controller !== controller) return;
+				entry.controller = null;
+				// The write can throw, such as for a derived key or from middleware, and that fails the request like an
+				// error from the fetcher would, so load and refetch still resolve
+				try {
+					// Wrapped so a function value isn't mistaken for an updater
+					store.setState(key, () => data);
+				} catch (error) {
+					setStatus(entry, 'error', error);
+					return;
+				}
+				entry.updatedAt = Date.now();
+				entry.succeeded = true;
+				setStatus(entry, 'success', undefined);
+			},
+			(error: unknown) => {
+				if (entry.controller !== controller) return;
+				entry.controller = null;
+				setStatus(entry, 'error', error);
+			},
+		);
+	setStatus(entry, 'loading', undefined);
+	return settled(store, key);
+};
+
+export function loadResource<State extends StateTree, Key extends keyof State>(
+	store: Store<State>,
+	key: Key,
+	fetcher: ResourceFetcher<State[Key]>,
+	options: LoadOptions = {},
+): Promise<StoreResource<State[Key]>> {
+	const entry = getEntry(store, key);
+	entry.fetcher = fetcher as ResourceFetcher<unknown>;
+	entry.options = options;
+	const { dedupe = true, staleTime = 0 } = options;
+	if (entry.controller && dedupe) return settled(store, key);
+	const isFresh =
+		entry.status === 'success' &&
+		!entry.invalidated &&
+		Date.now() - entry.updatedAt! < staleTime &&
+		!entry.controller;
+	if (isFresh) return Promise.resolve(getResource(store, key));
+	return startRequest(store, key);
+}
+
+export function refetchResource<State extends StateTree, Key extends keyof State>(store: Store<State>, key: Key) {
+	const entry = getEntry(store, key);
+	if (!entry.fetcher) return Promise.resolve(getResource(store, key));
+	return startRequest(store, key);
+}
+
+export function invalidateResource<State extends StateTree, Key extends keyof State>(store: Store<State>, key: Key) {
+	const entry = getEntry(store, key);
+	entry.invalidated = true;
+	// A key that's on screen is refetched straight away, otherwise the next load fetches it
+	if (entry.callbacks.size && entry.fetcher) startRequest(store, key);
+}
+
+export interface UseStoreResourceOptions<T> extends LoadOptions {
+	// Load the key with this fetcher when the component mounts, and whenever the key is stale or invalidated
+	fetcher?: ResourceFetcher<T>;
+	// Throw a promise while the first load is in flight, and throw the error if it fails, so a Suspense boundary shows a
+	// fallback and an error boundary catches the error. Once the key has loaded, refetches and their errors are returned
+	// in the status instead, so the loaded data stays on screen.
+	suspense?: boolean;
+}
+
+// This hook returns the status of a key that's loaded with store.load: { status, data, error }. It re-renders when the
+// status or the key's value changes.
+export function useStoreResource<State extends StateTree, Key extends keyof State>(
+	store: Store<State>,
+	key: Key,
+	options: UseStoreResourceOptions<State[Key]> = {},
+): StoreResource<State[Key]> {
+	const { fetcher, suspense = false, dedupe, staleTime } = options;
+	// The fetcher is usually an inline function, so the latest one is used without reloading when it changes
+	const fetcherRef = useRef(fetcher);
+	fetcherRef.current = fetcher;
+
+	const subscribe = useCallback(
+		(onStoreChange: () => void) => {
+			const entry = getEntry(store, key);
+			entry.callbacks.add(onStoreChange);
+			const unsubscribe = store.subscribe(key, onStoreChange);
+			return () => {
+				entry.callbacks.delete(onStoreChange);
+				unsubscribe();
+			};
+		},
+		[store, key],
+	);
+	const getSnapshot = useCallback(() => getResource(store, key), [store, key]);
+	const resource = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+	useEffect(() => {
+		const current = fetcherRef.current;
+		const entry = getEntry(store, key);
+		if (entry.startedBySuspense) {
+			entry.startedBySuspense = false;
+			return;
+		}
+		if (current) loadResource(store, key, current, { dedupe, staleTime });
+	}, [store, key, dedupe, staleTime]);
+
+	if (suspense) {
+		const entry = getEntry(store, key);
+		if (!entry.succeeded) {
+			if (entry.status === 'idle' && fetcher) {
+				loadResource(store, key, fetcher, { dedupe, staleTime });
+				entry.startedBySuspense = true;
+			}
+			if (entry.status === 'loading') throw entry.request;
+			if (entry.status === 'error') throw entry.error;
+		}
+	}
+	return resource;
+}
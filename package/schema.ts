@@ -0,0 +1,66 @@
+import type { StateTree } from './index';
+
+// The Standard Schema interface (https://standardschema.dev), which zod, valibot, arktype and others implement. It's
+// copied here as the spec recommends, so the library doesn't depend on any of them.
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+	readonly '~standard': {
+		readonly version: 1;
+		readonly vendor: string;
+		readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+		readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+	};
+}
+
+export type StandardSchemaResult<Output> =
+	{ readonly value: Output; readonly issues?: undefined } | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+export interface StandardSchemaIssue {
+	readonly message: string;
+	readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined;
+}
+
+// A validator for some or all of the keys in a store
+export type StoreSchema<State extends StateTree> = {
+	[Key in keyof State]?: StandardSchemaV1<unknown, State[Key]>;
+};
+
+// The state type described by a schema, used by Store.withSchema
+export type InferSchemaState<Schema extends Record<PropertyKey, StandardSchemaV1>> = {
+	[Key in keyof Schema]: NonNullable<Schema[Key]['~standard']['types']>['output'];
+};
+
+// What happens to a value that fails validation. reject drops the write. coerce writes the value the schema outputs, so
+// schemas that transform their input (such as z.coerce.number()) can fix values up, and drops the write if it fails.
+// warn writes the value anyway. Every failure is reported to onValidationError whatever the mode.
+export type ValidationMode = 'reject' | 'coerce' | 'warn';
+
+export class StoreValidationError extends Error {
+	constructor(
+		public key: PropertyKey,
+		public value: unknown,
+		public issues: ReadonlyArray<StandardSchemaIssue>,
+	) {
+		const details = issues.map((issue) => {
+			const path = issue.path?.map((segment) => String(typeof segment === 'object' ? segment.key : segment));
+			return path?.length ? `${path.join('.')}: ${issue.message}` : issue.message;
+		});
+		super(`Invalid value for key "${String(key)}": ${details.join('; ')}`);
+		this.name = 'StoreValidationError';
+	}
+}
+
+// Run a key's schema against a value. Store writes are synchronous, so schemas that validate asynchronously can't be used.
+export const validateValue = (
+	schema: StandardSchemaV1,
+	key: PropertyKey,
+	value: unknown,
+): { value: unknown } | { error: StoreValidationError } => {
+	const result = schema['~standard'].validate(value);
+	if (result instanceof Promise) {
+		throw new Error(
+			`The schema for key "${String(key)}" is asynchronous. Store schemas must validate synchronously.`,
+		);
+	}
+	if (result.issues) return { error: new StoreValidationError(key, value, result.issues) };
+	return { value: result.value };
+};
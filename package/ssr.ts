@@ -0,0 +1,90 @@
+import type { StateTree } from './index';
+
+// Converts the values of a store to and from something that survives JSON.stringify, so it can be embedded in HTML on
+// the server and read back on the client. The whole state object is passed through at once, which means libraries such
+// as superjson can be used directly.
+export interface StoreTransformer {
+	serialize: (value: unknown) => unknown;
+	deserialize: (value: unknown) => unknown;
+}
+
+// The result of store.dehydrate(). It's safe to pass to JSON.stringify. The State type parameter only exists so
+// Store.hydrate can infer the type of the store it creates.
+export interface DehydratedState<State extends StateTree = StateTree> {
+	state: unknown;
+	// Never set, only used for inference
+	readonly __state?: State;
+}
+
+// Values that JSON can't represent are replaced with a tagged object
+type Tagged =
+	| { $type: 'undefined' }
+	| { $type: 'Number'; value: string }
+	| { $type: 'BigInt'; value: string }
+	| { $type: 'Date'; value: number }
+	| { $type: 'Map'; value: [unknown, unknown][] }
+	| { $type: 'Set'; value: unknown[] }
+	// A plain object that has its own $type key, so it isn't mistaken for one of the tags above
+	| { $type: 'Object'; value: Record<string, unknown> };
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+	if (typeof value !== 'object' || value === null) return false;
+	const prototype = Object.getPrototypeOf(value);
+	return prototype === Object.prototype || prototype === null;
+};
+
+const encode = (value: unknown): unknown => {
+	if (value === undefined) return { $type: 'undefined' } satisfies Tagged;
+	if (typeof value === 'number' && !Number.isFinite(value)) {
+		return { $type: 'Number', value: String(value) } satisfies Tagged;
+	}
+	if (typeof value === 'bigint') return { $type: 'BigInt', value: value.toString() } satisfies Tagged;
+	if (value instanceof Date) return { $type: 'Date', value: value.getTime() } satisfies Tagged;
+	if (value instanceof Map) {
+		return {
+			$type: 'Map',
+			value: Array.from(value, ([key, item]) => [encode(key), encode(item)]),
+		} satisfies Tagged;
+	}
+	if (value instanceof Set) return { $type: 'Set', value: Array.from(value, encode) } satisfies Tagged;
+	if (Array.isArray(value)) return value.map(encode);
+	if (isPlainObject(value)) {
+		const encoded = Object.fromEntries(Object.entries(value).map(([key, item]) => [key, encode(item)]));
+		return '$type' in value ? ({ $type: 'Object', value: encoded } satisfies Tagged) : encoded;
+	}
+	return value;
+};
+
+const decode = (value: unknown): unknown => {
+	if (Array.isArray(value)) return value.map(decode);
+	if (!isPlainObject(value)) return value;
+	if (!('$type' in value)) {
+		return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, decode(item)]));
+	}
+	const tagged = value as Tagged;
+	switch (tagged.$type) {
+		case 'undefined':
+			return undefined;
+		case 'Number':
+			return Number(tagged.value);
+		case 'BigInt':
+			return BigInt(tagged.value);
+		case 'Date':
+			return new Date(tagged.value);
+		case 'Map':
+			return new Map(tagged.value.map(([key, item]) => [decode(key), decode(item)]));
+		case 'Set':
+			return new Set(tagged.value.map(decode));
+		case 'Object':
+			// Decode the entries rather than the object, so its own $type isn't read as a tag
+			return Object.fromEntries(Object.entries(tagged.value).map(([key, item]) => [key, decode(item)]));
+	}
+	return value;
+};
+
+// The default transformer handles everything JSON does, plus undefined, NaN and Infinity, BigInt, Date, Map and Set, at
+// any depth. Class instances other than those are passed through as they are.
+export const defaultTransformer: StoreTransformer = {
+	serialize: encode,
+	deserialize: decode,
+};
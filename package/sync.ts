@@ -0,0 +1,163 @@
+import type Store from './index';
+import type { StateTree } from './index';
+
+// A transport carries sync messages between instances. The default wraps a BroadcastChannel, but anything that can post
+// a message to every other instance and listen for theirs can be injected, such as a wrapper around a SharedWorker port
+// or an in-memory hub in tests. Messages are plain objects, so a transport that can't structured clone should serialize
+// them itself.
+export interface SyncTransport {
+	postMessage: (message: SyncMessage) => void;
+	// Returns a function that can be called to stop listening
+	subscribe: (listener: (message: SyncMessage) => void) => () => void;
+	close?: () => void;
+}
+
+export interface SyncOptions<State extends StateTree> {
+	// Instances with the same channel name are kept in sync
+	channelName: string;
+	// Only sync these keys. All keys except derived keys are synced by default.
+	keys?: (keyof State)[];
+	// Defaults to a BroadcastChannel when it's available
+	transport?: SyncTransport;
+	// Identifies this instance and breaks ties between concurrent writes. Random by default.
+	id?: string;
+}
+
+// Every synced write is stamped with a logical clock and the id of the instance that made it. The write with the higher
+// clock wins, and the higher id wins when the clocks are equal, so every instance settles on the same value no matter
+// what order the messages arrive in.
+export interface SyncStamp {
+	clock: number;
+	id: string;
+}
+
+export interface SyncEntry {
+	key: PropertyKey;
+	value: unknown;
+	stamp: SyncStamp;
+}
+
+export type SyncMessage =
+	// Changes from one commit
+	| { type: 'update'; source: string; entries: SyncEntry[] }
+	// Sent by a new instance so the others send it what they have
+	| { type: 'request'; source: string }
+	// The reply to a request, only handled by the instance that asked
+	| { type: 'snapshot'; source: string; target: string; entries: SyncEntry[] };
+
+const createBroadcastChannelTransport = (channelName: string): SyncTransport | undefined => {
+	if (typeof BroadcastChannel === 'undefined') return undefined;
+	const channel = new BroadcastChannel(channelName);
+	return {
+		postMessage: (message) => channel.postMessage(message),
+		subscribe: (listener) => {
+			const handler = (event: MessageEvent) => listener(event.data);
+			channel.addEventListener('message', handler);
+			return () => channel.removeEventListener('message', handler);
+		},
+		close: () => channel.close(),
+	};
+};
+
+const isNewer = (a: SyncStamp, b: SyncStamp) => a.clock > b.clock || (a.clock === b.clock && a.id > b.id);
+
+// Keep the chosen keys of a store in sync with every other instance on the same channel, such as the same store in other
+// tabs or windows. Each commit is sent as one message, values received from other instances aren't sent back, and a new
+// instance asks the others for their values when it connects. Returns a function that disconnects the store. If there's
+// no transport (on the server, for example), nothing happens.
+export function syncAcrossContexts<State extends StateTree>(store: Store<State>, options: SyncOptions<State>) {
+	const transport = options.transport ?? createBroadcastChannelTransport(options.channelName);
+	if (!transport) return () => {};
+
+	const id = options.id ?? Math.random().toString(36).slice(2);
+	const isSynced = (key: keyof State) => !store.isDerived(key) && (!options.keys || options.keys.includes(key));
+
+	// The last write this instance knows of for each key. Keys that haven't been written since the store was created
+	// have no stamp, so any write from another instance wins over them.
+	const stamps = new Map<keyof State, SyncStamp>();
+	let clock = 0;
+	// Values received from other instances. Their commits aren't sent back, which would otherwise bounce between
+	// instances forever. In batch mode they're committed later, so they're matched up by key and value when the commit
+	// arrives.
+	const expected = new Map<keyof State, unknown>();
+	// Set while received values are being written synchronously
+	let applying = false;
+
+	const unsubscribeCommits = store.subscribeCommits((changes) => {
+		if (applying) return;
+		const entries: SyncEntry[] = [];
+		changes.forEach((change) => {
+			if (expected.has(change.key)) {
+				const isExpected = expected.get(change.key) === change.newValue;
+				expected.delete(change.key);
+				if (isExpected) return;
+			}
+			if (!isSynced(change.key)) return;
+			const stamp = { clock: ++clock, id };
+			stamps.set(change.key, stamp);
+			entries.push({ key: change.key, value: change.newValue, stamp });
+		});
+		if (entries.length > 0) transport.postMessage({ type: 'update', source: id, entries });
+	});
+
+	// Write the entries that win over what this instance has in one transaction
+	const receive = (entries: SyncEntry[]) => {
+		const accepted = entries.filter((entry) => {
+			const key = entry.key as keyof State;
+			clock = Math.max(clock, entry.stamp.clock);
+			if (!isSynced(key)) return false;
+			const current = stamps.get(key);
+			if (current && !isNewer(entry.stamp, current)) return false;
+			stamps.set(key, entry.stamp);
+			return true;
+		});
+		if (accepted.length === 0) return;
+		accepted.forEach((entry) => expected.set(entry.key as keyof State, entry.value));
+		// Wrapped so a function value isn't mistaken for an updater
+		const updates = Object.fromEntries(accepted.map((entry) => [entry.key, () => entry.value]));
+		applying = true;
+		try {
+			store.setMany(updates as Parameters<Store<State>['setMany']>[0]);
+		} finally {
+			applying = false;
+		}
+		// Outside batch mode the commit has already happened, so anything left over didn't change
+		if (!store.options.batchUpdates) expected.clear();
+	};
+
+	const unsubscribeMessages = transport.subscribe((message) => {
+		if (!message || message.source === id) return;
+		switch (message.type) {
+			case 'update':
+				receive(message.entries);
+				return;
+			case 'request': {
+				// Only keys that have been written are sent. The rest still have the values every instance starts with.
+				const entries = [...stamps].map(([key, stamp]) => ({
+					key,
+					value: store.getState(key),
+					stamp,
+				}));
+				if (entries.length > 0)
+					transport.postMessage({
+						type: 'snapshot',
+						source: id,
+						target: message.source,
+						entries,
+					});
+				return;
+			}
+			case 'snapshot':
+				if (message.target === id) receive(message.entries);
+				return;
+		}
+	});
+
+	transport.postMessage({ type: 'request', source: id });
+
+	return () => {
+		unsubscribeCommits();
+		unsubscribeMessages();
+		transport.close?.();
+	};
+}
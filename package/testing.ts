@@ -0,0 +1,153 @@
+// Helpers for testing code that uses stores. Import them from 'react-granular-store/testing'.
+import * as React from 'react';
+import Store from './index';
+import type { StateTree, StoreOptions } from './index';
+
+// A change to one key, as recorded by recordEmissions and createTestStore
+export type StoreEmission<State extends StateTree> = {
+	[Key in keyof State]: { key: Key; oldValue: State[Key]; newValue: State[Key] };
+}[keyof State];
+
+export interface EmissionRecorder<State extends StateTree> {
+	// Every change since recording started or was last cleared, in order
+	emissions: StoreEmission<State>[];
+	clear: () => void;
+	stop: () => void;
+}
+
+// Record every change to a store's keys
+export function recordEmissions<State extends StateTree>(store: Store<State>): EmissionRecorder<State> {
+	const recorder: EmissionRecorder<State> = {
+		emissions: [],
+		clear: () => {
+			recorder.emissions.length = 0;
+		},
+		stop: store.subscribeAll((key, newValue, oldValue) => {
+			recorder.emissions.push({ key, oldValue, newValue } as StoreEmission<State>);
+		}),
+	};
+	return recorder;
+}
+
+// A store that records every change to its keys
+export class TestStore<State extends StateTree> extends Store<State> {
+	private _recorder: EmissionRecorder<State>;
+
+	constructor(defaultValues: State, options?: StoreOptions<State>) {
+		super(defaultValues, options);
+		this._recorder = recordEmissions(this);
+	}
+
+	public get emissions() {
+		return this._recorder.emissions;
+	}
+
+	public clearEmissions() {
+		this._recorder.clear();
+	}
+}
+
+export function createTestStore<State extends StateTree>(defaultValues: State, options?: StoreOptions<State>) {
+	return new TestStore(defaultValues, options);
+}
+
+export interface WaitForValueOptions {
+	// How long to wait before rejecting, in milliseconds. Defaults to 1000.
+	timeout?: number;
+}
+
+// Wait until the committed value of a key matches a predicate, and resolve with that value. If it already matches, the
+// promise resolves straight away. Rejects if it doesn't match within the timeout.
+export function waitForValue<State extends StateTree, Key extends keyof State>(
+	store: Store<State>,
+	key: Key,
+	predicate: (value: State[Key]) => boolean,
+	{ timeout = 1000 }: WaitForValueOptions = {},
+): Promise<State[Key]> {
+	return new Promise((resolve, reject) => {
+		const current = store.getSnapshot(key).value;
+		if (predicate(current)) {
+			resolve(current);
+			return;
+		}
+		const timer = setTimeout(() => {
+			unsubscribe();
+			reject(new Error(`Timed out after ${timeout}ms waiting for the value of "${String(key)}"`));
+		}, timeout);
+		const unsubscribe = store.subscribe(key, (value) => {
+			if (!predicate(value)) return;
+			clearTimeout(timer);
+			unsubscribe();
+			resolve(value);
+		});
+	});
+}
+
+// Only flush is needed, which keeps subclasses such as TestStore assignable whatever their state
+type FlushableStore = Pick<Store<StateTree>, 'flush'>;
+
+// Resolve the pending batch of each store straight away. It doesn't wait for the scheduler, so it works under fake
+// timers.
+export function flushStore(...stores: FlushableStore[]) {
+	stores.forEach((store) => store.flush());
+}
+
+// React's act, which is exported from react from 18.3 onwards
+const act = (callback: () => void | Promise<void>) => {
+	const reactAct = (React as { act?: (callback: () => void | Promise<void>) => Promise<void> }).act;
+	if (!reactAct) throw new Error('The act helpers need React 18.3 or later');
+	return reactAct(callback);
+};
+
+// Set the state of a key inside act and resolve the batch, so components have re-rendered when the promise resolves
+export function actSetState<State extends StateTree, Key extends keyof State>(
+	store: Store<State>,
+	key: Key,
+	value: State[Key] | ((prev: State[Key]) => State[Key]),
+) {
+	return act(async () => {
+		store.setState(key, value);
+		store.flush();
+	});
+}
+
+// Resolve the pending batch of each store inside act
+export function actFlush(...stores: FlushableStore[]) {
+	return act(async () => flushStore(...stores));
+}
+
+const formatValue = (value: unknown): string => {
+	if (value === undefined) return 'undefined';
+	if (typeof value === 'function') return `[Function ${value.name || 'anonymous'}]`;
+	if (typeof value === 'bigint') return `${value}n`;
+	if (typeof value === 'symbol') return value.toString();
+	if (value instanceof Map) return `Map ${formatValue(Object.fromEntries(value))}`;
+	if (value instanceof Set) return `Set ${formatValue(Array.from(value))}`;
+	try {
+		return JSON.stringify(value) ?? String(value);
+	} catch {
+		return String(value);
+	}
+};
+
+// Format emissions as one line per change, such as 'count: 0 -> 1', which reads well in snapshots
+export function formatEmissions(emissions: readonly StoreEmission<StateTree>[]) {
+	return emissions
+		.map(({ key, oldValue, newValue }) => `${String(key)}: ${formatValue(oldValue)} -> ${formatValue(newValue)}`)
+		.join('\n');
+}
+
+const isEmission = (value: unknown) =>
+	typeof value === 'object' &&
+	value !== null &&
+	Object.keys(value).length === 3 &&
+	'key' in value &&
+	'oldValue' in value &&
+	'newValue' in value;
+
+// A snapshot serializer for Vitest and Jest that prints emission logs with formatEmissions. Add it with
+// expect.addSnapshotSerializer(emissionSerializer).
+export const emissionSerializer = {
+	test: (value: unknown) => Array.isArray(value) && value.length > 0 && value.every(isEmission),
+	serialize: (value: StoreEmission<StateTree>[]) => formatEmissions(value),
+};
@@ -1,8 +1,10 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-	entry: ['index.ts'],
+	entry: ['index.ts', 'testing.ts'],
 	format: ['esm', 'cjs'],
+	// The testing entry shares the store code with the main entry instead of having its own copy
+	splitting: true,
 	sourcemap: true,
 	minify: false,
 	clean: true,
@@ -0,0 +1,203 @@
+// @vitest-environment jsdom
+import { describe, expect, test, vi } from 'vitest';
+import { Expect, Equal } from 'type-testing';
+import React, { act } from 'react';
+import { createRoot } from 'react-dom/client';
+import Store, { combineStores, useStoreValue } from 'react-granular-store';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+const createStores = () => ({
+	user: new Store({ name: 'Ada', age: 36 }),
+	cart: new Store({ items: [] as string[] }),
+});
+
+describe('combineStores', () => {
+	test('namespaces the keys of each store', () => {
+		const { user, cart } = createStores();
+		const app = combineStores({ user, cart });
+
+		const name = app.getState('user.name');
+		type TEST_COMBINED_KEY = Expect<Equal<typeof name, string>>;
+		type TEST_COMBINED_ITEMS = Expect<Equal<ReturnType<typeof app.getState<'cart.items'>>, string[]>>;
+		expect(name).toBe('Ada');
+		expect(app.state).toEqual({ 'user.name': 'Ada', 'user.age': 36, 'cart.items': [] });
+		// @ts-expect-error keys have to include the store name
+		app.getState('name');
+	});
+
+	test('follows changes to the original stores and passes writes on to them', () => {
+		const { user, cart } = createStores();
+		const app = combineStores({ user, cart });
+		const callback = vi.fn();
+		app.on('user.name', callback);
+
+		user.setState('name', 'Grace');
+		expect(callback).toHaveBeenCalledWith('Grace');
+		expect(app.getSnapshot('user.name').value).toBe('Grace');
+
+		app.setState('cart.items', (items) => [...items, 'Apple']);
+		expect(cart.getState('items')).toEqual(['Apple']);
+		expect(app.getState('cart.items')).toEqual(['Apple']);
+	});
+
+	test('reads pending values and observes the original keys', () => {
+		const user = new Store({ first: 'Ada', last: 'Lovelace' }, { batchUpdates: true, scheduler: () => {} });
+		const full = user.derive('full', (get) => `${get('first')} ${get('last')}`);
+		const start = vi.fn();
+		full.onObserved('first', start);
+		const app = combineStores({ user: full });
+
+		user.setState('first', 'Augusta');
+		expect(app.getState('user.first')).toBe('Augusta');
+		expect(app.getState('user.full')).toBe('Augusta Lovelace');
+
+		const callback = vi.fn();
+		const unsubscribe = app.subscribe('user.first', callback);
+		expect(start).toHaveBeenCalledTimes(1);
+		user.flush();
+		expect(callback).toHaveBeenCalledWith('Augusta');
+		unsubscribe();
+	});
+
+	test('setMany is applied to every store before the combined store notifies', () => {
+		const user = new Store({ name: 'Ada' });
+		const cart = new Store({ count: 0 });
+		const app = combineStores({ user, cart });
+		const seen: number[] = [];
+		app.on('user.name', () => seen.push(app.getState('cart.count')));
+
+		app.setMany({ 'user.name': 'Grace', 'cart.count': 1 });
+
+		expect(seen).toEqual([1]);
+		expect(user.getState('name')).toBe('Grace');
+		expect(cart.getState('count')).toBe(1);
+	});
+
+	test('a transaction that throws leaves the original stores alone', () => {
+		const { user, cart } = createStores();
+		const app = combineStores({ user, cart });
+		const callback = vi.fn();
+		user.on('name', callback);
+
+		expect(() =>
+			app.transaction(() => {
+				app.setState('user.name', 'Grace');
+				app.setState('cart.items', (items) => [...items, 'Apple']);
+				expect(app.getState('user.name')).toBe('Grace');
+				expect(app.getState('cart.items')).toEqual(['Apple']);
+				throw new Error('Cancelled');
+			}),
+		).toThrow('Cancelled');
+
+		expect(user.getState('name')).toBe('Ada');
+		expect(app.getState('user.name')).toBe('Ada');
+		expect(cart.getState('items')).toEqual([]);
+		expect(callback).not.toHaveBeenCalled();
+	});
+
+	test('works with the hooks', async () => {
+		const { user, cart } = createStores();
+		const app = combineStores({ user, cart });
+
+		function Name() {
+			return <>{useStoreValue(app, 'user.name')}</>;
+		}
+
+		const container = document.createElement('div');
+		document.body.appendChild(container);
+		const root = createRoot(container);
+
+		await act(async () => {
+			root.render(<Name />);
+		});
+		await act(async () => {
+			user.setState('name', 'Grace');
+		});
+		expect(container.textContent).toBe('Grace');
+
+		await act(async () => {
+			root.unmount();
+		});
+		container.remove();
+	});
+});
+
+describe('Store#createChild', () => {
+	test('reads through to the parent for keys it does not override', () => {
+		const parent = new Store({ theme: 'light', locale: 'en' });
+		const child = parent.createChild({ theme: 'dark' });
+		const callback = vi.fn();
+		child.on('locale', callback);
+
+		expect(child.getState('theme')).toBe('dark');
+		expect(child.getState('locale')).toBe('en');
+
+		parent.setState('locale', 'fr');
+		parent.setState('theme', 'blue');
+
+		expect(callback).toHaveBeenCalledWith('fr');
+		expect(child.getState('locale')).toBe('fr');
+		expect(child.getState('theme')).toBe('dark');
+	});
+
+	test('writes stay in the child', () => {
+		const parent = new Store({ theme: 'light', locale: 'en' });
+		const child = parent.createChild();
+
+		child.setState('locale', 'de');
+		parent.setState('locale', 'fr');
+
+		expect(child.getState('locale')).toBe('de');
+		expect(parent.getState('locale')).toBe('fr');
+		expect(child.isOverridden('locale')).toBe(true);
+
+		child.inherit('locale');
+		expect(child.getState('locale')).toBe('fr');
+		parent.setState('locale', 'es');
+		expect(child.getState('locale')).toBe('es');
+	});
+
+	test('children of children are notified', () => {
+		const parent = new Store({ count: 0 });
+		const grandchild = parent.createChild().createChild();
+		const callback = vi.fn();
+		grandchild.on('count', callback);
+
+		parent.setState('count', 1);
+
+		expect(callback).toHaveBeenCalledWith(1);
+	});
+
+	test('reset and resetAll go back to reading inherited keys from the parent', () => {
+		const parent = new Store({ theme: 'light', locale: 'en' });
+		const child = parent.createChild({ locale: 'de' });
+
+		child.setState('theme', 'dark');
+		child.setState('locale', 'fr');
+		parent.setState('theme', 'blue');
+		child.reset('theme');
+		expect(child.getState('theme')).toBe('blue');
+		expect(child.isOverridden('theme')).toBe(false);
+
+		child.setState('theme', 'dark');
+		child.resetAll();
+		parent.setState('theme', 'green');
+
+		expect(child.getState('theme')).toBe('green');
+		expect(child.getState('locale')).toBe('de');
+		expect(child.isOverridden('locale')).toBe(true);
+	});
+
+	test('dispose stops following the parent', () => {
+		const parent = new Store({ count: 0 });
+		const child = parent.createChild();
+		child.dispose();
+
+		parent.setState('count', 1);
+
+		expect(child.state.count).toBe(0);
+		expect(parent.commitCallbacks.size).toBe(0);
+	});
+});
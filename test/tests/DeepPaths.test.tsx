@@ -0,0 +1,149 @@
+// @vitest-environment jsdom
+import { describe, expect, test, vi } from 'vitest';
+import { Expect, Equal } from 'type-testing';
+import React, { act } from 'react';
+import { createRoot } from 'react-dom/client';
+import Store, { PathValue, StorePath, useStorePath, useStorePathState } from 'react-granular-store';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+interface SettingsState {
+	settings: {
+		theme: { color: string; dark: boolean };
+		fontSize: number;
+		nickname?: { first: string };
+	};
+	todos: { title: string; done: boolean }[];
+	count: number;
+}
+
+const createStore = () =>
+	new Store<SettingsState>({
+		settings: { theme: { color: 'blue', dark: false }, fontSize: 14 },
+		todos: [
+			{ title: 'Write tests', done: false },
+			{ title: 'Ship it', done: false },
+		],
+		count: 0,
+	});
+
+// Paths are generated from the state type
+type TEST_PATH_LEAF = Expect<Equal<Extract<StorePath<SettingsState>, 'settings.theme.color'>, 'settings.theme.color'>>;
+type TEST_PATH_ARRAY = Expect<
+	Equal<Extract<StorePath<SettingsState>, `todos.${number}.title`>, `todos.${number}.title`>
+>;
+type TEST_PATH_VALUE = Expect<Equal<PathValue<SettingsState, 'settings.theme'>, { color: string; dark: boolean }>>;
+type TEST_PATH_VALUE_ARRAY = Expect<Equal<PathValue<SettingsState, 'todos.0.done'>, boolean>>;
+type TEST_PATH_VALUE_OPTIONAL = Expect<Equal<PathValue<SettingsState, 'settings.nickname.first'>, string | undefined>>;
+
+describe('getIn and setIn', () => {
+	test('read values at a path', () => {
+		const store = createStore();
+		const color = store.getIn('settings.theme.color');
+		type TEST_GETIN = Expect<Equal<typeof color, string>>;
+
+		expect(color).toBe('blue');
+		expect(store.getIn('todos.1.title')).toBe('Ship it');
+		expect(store.getIn('settings.nickname.first')).toBeUndefined();
+		// @ts-expect-error the path doesn't exist
+		store.getIn('settings.theme.size');
+	});
+
+	test('copy on write with structural sharing', () => {
+		const store = createStore();
+		const before = store.getState('settings');
+
+		store.setIn('settings.theme.color', 'red');
+		const after = store.getState('settings');
+
+		expect(after.theme.color).toBe('red');
+		expect(before.theme.color).toBe('blue');
+		expect(after).not.toBe(before);
+		expect(after.theme).not.toBe(before.theme);
+
+		store.setIn('todos.0.done', (done) => !done);
+		expect(store.getState('todos')[0]).toEqual({ title: 'Write tests', done: true });
+		expect(Array.isArray(store.getState('todos'))).toBe(true);
+		// @ts-expect-error the value has the wrong type
+		store.setIn('settings.fontSize', 'large');
+	});
+
+	test('setting the same value does not notify', () => {
+		const store = createStore();
+		const callback = vi.fn();
+		store.on('settings', callback);
+
+		store.setIn('settings.theme.color', 'blue');
+
+		expect(callback).not.toHaveBeenCalled();
+	});
+
+	test('creates missing objects along the path', () => {
+		const store = createStore();
+		store.setIn('settings.nickname.first', 'Jay');
+		expect(store.getState('settings').nickname).toEqual({ first: 'Jay' });
+	});
+});
+
+describe('subscribePath', () => {
+	test('only calls back when the value at the path changes', () => {
+		const store = createStore();
+		const callback = vi.fn();
+		const unsubscribe = store.subscribePath('settings.theme.color', callback);
+
+		store.setIn('settings.fontSize', 16);
+		expect(callback).not.toHaveBeenCalled();
+
+		store.setIn('settings.theme.color', 'red');
+		expect(callback).toHaveBeenCalledWith('red', 'blue');
+
+		unsubscribe();
+		store.setIn('settings.theme.color', 'green');
+		expect(callback).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe('useStorePath', () => {
+	test('only re-renders when the leaf changes', async () => {
+		const store = createStore();
+		let renders = 0;
+		let setColor: ((color: string) => void) | undefined;
+
+		function Color() {
+			renders++;
+			const color = useStorePath(store, 'settings.theme.color');
+			type TEST_USESTOREPATH = Expect<Equal<typeof color, string>>;
+			const [fontSize] = useStorePathState(null as Store<SettingsState> | null, 'settings.fontSize');
+			type TEST_USESTOREPATHSTATE_NULL = Expect<Equal<typeof fontSize, number | null>>;
+			setColor = useStorePathState(store, 'settings.theme.color')[1];
+			return <span>{color}</span>;
+		}
+
+		const container = document.createElement('div');
+		document.body.appendChild(container);
+		const root = createRoot(container);
+
+		await act(async () => {
+			root.render(<Color />);
+		});
+		expect(container.textContent).toBe('blue');
+
+		await act(async () => {
+			store.setIn('settings.theme.dark', true);
+			store.setIn('settings.fontSize', 20);
+		});
+		expect(renders).toBe(1);
+
+		await act(async () => {
+			setColor?.('red');
+		});
+		expect(container.textContent).toBe('red');
+		expect(renders).toBe(2);
+
+		await act(async () => {
+			root.unmount();
+		});
+		container.remove();
+	});
+});
@@ -0,0 +1,182 @@
+// @vitest-environment jsdom
+import { describe, expect, test, vi } from 'vitest';
+import { Expect, Equal } from 'type-testing';
+import React, { act } from 'react';
+import { createRoot } from 'react-dom/client';
+import Store, { DerivedGetter, useStoreValue } from 'react-granular-store';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+// Type inference
+const typedStore = new Store({ firstName: 'John', lastName: 'Doe', age: 30 })
+	.derive('fullName', (get) => {
+		const firstName = get('firstName');
+		type TEST_DERIVE_GET = Expect<Equal<typeof firstName, string>>;
+		return `${firstName} ${get('lastName')}`;
+	})
+	.derive('isAdult', (get) => get('age') >= 18);
+
+const fullName = typedStore.getState('fullName');
+type TEST_DERIVE_GETSTATE = Expect<Equal<typeof fullName, string>>;
+const isAdult = typedStore.getState('isAdult');
+type TEST_DERIVE_CHAINED = Expect<Equal<typeof isAdult, boolean>>;
+
+// @ts-expect-error - derived getters can only read keys that exist
+typedStore.derive('broken', (get) => get('notInStore'));
+
+const createNameStore = () =>
+	new Store({ firstName: 'John', lastName: 'Doe' }).derive(
+		'fullName',
+		(get) => `${get('firstName')} ${get('lastName')}`,
+	);
+
+describe('Store#derive', () => {
+	test('computes from its dependencies', () => {
+		const store = createNameStore();
+		expect(store.getState('fullName')).toBe('John Doe');
+		store.setState('firstName', 'Jane');
+		expect(store.getState('fullName')).toBe('Jane Doe');
+	});
+
+	test('does not recompute without listeners until read', () => {
+		const getter = vi.fn((get: DerivedGetter<{ count: number }>) => get('count') * 2);
+		const store = new Store({ count: 1 }).derive('double', getter);
+
+		expect(getter).not.toHaveBeenCalled();
+		store.setState('count', 2);
+		store.setState('count', 3);
+		expect(getter).not.toHaveBeenCalled();
+
+		expect(store.getState('double')).toBe(6);
+		expect(getter).toHaveBeenCalledTimes(1);
+
+		// Reading again without a change uses the cached value
+		expect(store.getState('double')).toBe(6);
+		expect(getter).toHaveBeenCalledTimes(1);
+	});
+
+	test('reading a derived key never commits', () => {
+		const store = new Store({ count: 1 }).derive('double', (get) => get('count') * 2);
+		store.setState('count', 2);
+		const version = store.getVersion('double');
+		expect(store.getState('double')).toBe(4);
+		expect(store.getVersion('double')).toBe(version + 1);
+
+		// Commit listeners observe every key, so derived keys are recomputed as part of the commit that changed them
+		const commits: string[][] = [];
+		store.subscribeCommits((changes) => commits.push(changes.map(({ key }) => String(key))));
+		store.setState('count', 3);
+		expect(commits).toEqual([['count'], ['double']]);
+		expect(store.getState('double')).toBe(6);
+		expect(commits).toHaveLength(2);
+	});
+
+	test('notifies listeners when the computed value changes', () => {
+		const store = createNameStore();
+		const seen: string[] = [];
+		store.on('fullName', (value) => seen.push(value));
+
+		store.setState('firstName', 'Jane');
+		store.setState('lastName', 'Smith');
+		expect(seen).toEqual(['Jane Doe', 'Jane Smith']);
+	});
+
+	test('does not notify when the computed value is equal', () => {
+		const store = new Store({ count: 1 }).derive('isPositive', (get) => get('count') > 0);
+		const callback = vi.fn();
+		store.on('isPositive', callback);
+
+		store.setState('count', 2);
+		expect(callback).not.toHaveBeenCalled();
+
+		store.setState('count', -1);
+		expect(callback).toHaveBeenCalledWith(false);
+	});
+
+	test('re-tracks dependencies on every computation', () => {
+		const store = new Store({ useNickname: false, name: 'Jonathan', nickname: 'Jon' }).derive('display', (get) =>
+			get('useNickname') ? get('nickname') : get('name'),
+		);
+		const callback = vi.fn();
+		store.on('display', callback);
+
+		// nickname isn't read yet, so changing it has no effect
+		store.setState('nickname', 'Johnny');
+		expect(callback).not.toHaveBeenCalled();
+
+		store.setState('useNickname', true);
+		expect(callback).toHaveBeenLastCalledWith('Johnny');
+
+		store.setState('nickname', 'J');
+		expect(callback).toHaveBeenLastCalledWith('J');
+	});
+
+	test('derived keys can depend on other derived keys', () => {
+		const store = new Store({ count: 1 })
+			.derive('double', (get) => get('count') * 2)
+			.derive('quadruple', (get) => get('double') * 2);
+		const seen: number[] = [];
+		store.on('quadruple', (value) => seen.push(value));
+
+		store.setState('count', 2);
+		expect(seen).toEqual([8]);
+		expect(store.getState('double')).toBe(4);
+	});
+
+	test('getState is accurate while a batch is pending', async () => {
+		const store = new Store({ count: 1 }, { batchUpdates: true }).derive('double', (get) => get('count') * 2);
+		const seen: number[] = [];
+		store.on('double', (value) => seen.push(value));
+
+		store.setState('count', 2);
+		expect(store.getState('double')).toBe(4);
+		store.setState('count', 3);
+		expect(store.getState('double')).toBe(6);
+		expect(seen).toEqual([]);
+
+		await new Promise((r) => setTimeout(r, 0));
+
+		expect(seen).toEqual([6]);
+	});
+
+	test('setting a derived key throws', () => {
+		const store = createNameStore();
+		expect(() => store.setState('fullName', 'Nope')).toThrow('Cannot set derived key "fullName"');
+	});
+
+	test('circular dependencies throw', () => {
+		const store = new Store({})
+			.derive('a', (get): number => get('b' as never))
+			.derive('b', (get): number => get('a'));
+		expect(() => store.getState('a')).toThrow('Circular dependency');
+	});
+
+	test('useStoreValue re-renders when a derived key changes', async () => {
+		const store = createNameStore();
+		const seen: string[] = [];
+
+		function App() {
+			seen.push(useStoreValue(store, 'fullName'));
+			return null;
+		}
+
+		const container = document.createElement('div');
+		document.body.appendChild(container);
+		const root = createRoot(container);
+
+		await act(async () => {
+			root.render(<App />);
+		});
+		await act(async () => {
+			store.setState('lastName', 'Smith');
+		});
+
+		expect(seen.at(-1)).toBe('John Smith');
+
+		await act(async () => {
+			root.unmount();
+		});
+		container.remove();
+	});
+});
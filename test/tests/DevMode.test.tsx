@@ -0,0 +1,140 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import React, { act, useEffect, useState } from 'react';
+import { createRoot } from 'react-dom/client';
+import Store, { useStoreValue } from 'react-granular-store';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+let warn: ReturnType<typeof vi.spyOn>;
+beforeEach(() => {
+	warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+afterEach(() => {
+	warn.mockRestore();
+});
+
+const render = async (element: React.ReactElement) => {
+	const container = document.createElement('div');
+	document.body.appendChild(container);
+	const root = createRoot(container);
+	await act(async () => {
+		root.render(element);
+	});
+	return {
+		container,
+		unmount: async () => {
+			await act(async () => {
+				root.unmount();
+			});
+			container.remove();
+		},
+	};
+};
+
+describe('devMode', () => {
+	test('deep-freezes the default values and every value written', () => {
+		const defaults = { user: { name: 'Ada', tags: ['admin'] } };
+		const store = new Store(defaults, { devMode: true });
+		expect(Object.isFrozen(defaults.user)).toBe(true);
+		expect(Object.isFrozen(defaults.user.tags)).toBe(true);
+
+		store.setState('user', { name: 'Grace', tags: [] });
+		const user = store.getState('user');
+		expect(() => {
+			user.name = 'Linus';
+		}).toThrow(TypeError);
+		expect(() => user.tags.push('x')).toThrow(TypeError);
+
+		// Updates that copy still work
+		store.update('user', (draft) => {
+			draft.tags.push('editor');
+		});
+		expect(store.getState('user').tags).toEqual(['editor']);
+	});
+
+	test('does nothing unless it is turned on', () => {
+		const defaults = { user: { name: 'Ada' } };
+		new Store(defaults);
+		expect(Object.isFrozen(defaults.user)).toBe(false);
+	});
+
+	test('warns when a write is skipped because the value was mutated in place', () => {
+		const store = new Store({ tags: new Set(['a']) }, { devMode: true });
+		const callback = vi.fn();
+		store.on('tags', callback);
+
+		store.setState('tags', store.getState('tags'));
+		expect(warn).not.toHaveBeenCalled();
+
+		const tags = store.getState('tags');
+		tags.add('b');
+		store.setState('tags', tags);
+
+		expect(callback).not.toHaveBeenCalled();
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining('setState("tags") was skipped'));
+	});
+
+	test('warns about setState during render but not in effects', async () => {
+		const store = new Store({ count: 0 }, { devMode: true });
+
+		function Effect() {
+			useEffect(() => store.setState('count', 1), []);
+			return null;
+		}
+		const effect = await render(<Effect />);
+		expect(warn).not.toHaveBeenCalled();
+		await effect.unmount();
+
+		function Render() {
+			store.setState('count', 2);
+			return null;
+		}
+		const rendered = await render(<Render />);
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining('setState("count") was called while a component'));
+		await rendered.unmount();
+	});
+
+	test('warns about listeners left subscribed after their component unmounted', async () => {
+		const store = new Store({ count: 0 }, { devMode: true });
+
+		function Leaky() {
+			useState(() => store.subscribe('count', () => {}));
+			return <>{useStoreValue(store, 'count')}</>;
+		}
+		const view = await render(<Leaky />);
+		await act(async () => {
+			store.setState('count', 1);
+		});
+		expect(warn).not.toHaveBeenCalled();
+
+		await view.unmount();
+		store.setState('count', 2);
+		store.setState('count', 3);
+
+		expect(warn).toHaveBeenCalledTimes(1);
+		expect(warn).toHaveBeenCalledWith(
+			'A listener for "count" subscribed by Leaky is still subscribed after Leaky unmounted. Unsubscribe in the cleanup of the effect that subscribed, or use the hooks.',
+		);
+	});
+
+	test('does not track listeners subscribed in effects with React 18', async () => {
+		const store = new Store({ count: 0 }, { devMode: true });
+		const listener = vi.fn();
+
+		function Leaky() {
+			useEffect(() => {
+				store.subscribe('count', listener);
+			}, []);
+			return null;
+		}
+		const view = await render(<Leaky />);
+		await view.unmount();
+		store.setState('count', 1);
+
+		// React 18 doesn't say which component's effect is running, so the leak goes unreported
+		expect(listener).toHaveBeenCalledTimes(1);
+		expect(warn).not.toHaveBeenCalled();
+	});
+});
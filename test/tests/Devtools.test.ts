@@ -0,0 +1,182 @@
+import { describe, expect, test, vi } from 'vitest';
+import Store, { DevtoolsExtension, DevtoolsMessage, connectDevtools } from 'react-granular-store';
+
+// A fake extension that records what the bridge sends, and lets tests dispatch messages as the monitor would
+const createFakeExtension = () => {
+	const listeners = new Set<(message: DevtoolsMessage) => void>();
+	const connection = {
+		init: vi.fn(),
+		send: vi.fn(),
+		subscribe: vi.fn((listener: (message: DevtoolsMessage) => void) => {
+			listeners.add(listener);
+			return () => listeners.delete(listener);
+		}),
+		unsubscribe: vi.fn(),
+	};
+	const extension: DevtoolsExtension = { connect: vi.fn(() => connection) };
+	const dispatch = (type: string, state?: unknown, payload?: Partial<NonNullable<DevtoolsMessage['payload']>>) =>
+		listeners.forEach((listener) =>
+			listener({
+				type: 'DISPATCH',
+				payload: { type, ...payload },
+				state: state === undefined ? undefined : JSON.stringify(state),
+			}),
+		);
+	return { extension, connection, dispatch, listeners };
+};
+
+describe('connectDevtools', () => {
+	test('connects with the name and sends the initial state', () => {
+		const { extension, connection } = createFakeExtension();
+		const store = new Store({ count: 0 });
+		connectDevtools(store, { name: 'Counter', extension });
+
+		expect(extension.connect).toHaveBeenCalledWith({ name: 'Counter' });
+		expect(connection.init).toHaveBeenCalledWith({ count: 0 });
+	});
+
+	test('reports every setState', () => {
+		const { extension, connection } = createFakeExtension();
+		const store = new Store({ count: 0, name: 'John' });
+		connectDevtools(store, { extension });
+
+		store.setState('count', 1);
+		store.setState('name', 'Jane');
+
+		expect(connection.send.mock.calls).toEqual([
+			[
+				{ type: 'setState', key: 'count', value: 1 },
+				{ count: 1, name: 'John' },
+			],
+			[
+				{ type: 'setState', key: 'name', value: 'Jane' },
+				{ count: 1, name: 'Jane' },
+			],
+		]);
+	});
+
+	test('reports a batch as one action', async () => {
+		const { extension, connection } = createFakeExtension();
+		const store = new Store({ a: 0, b: 0 }, { batchUpdates: true });
+		connectDevtools(store, { extension });
+
+		store.setState('a', 1);
+		store.setState('b', 2);
+		await new Promise((r) => setTimeout(r, 0));
+
+		expect(connection.send).toHaveBeenCalledTimes(1);
+		expect(connection.send).toHaveBeenCalledWith(
+			{
+				type: 'batch',
+				changes: [
+					{ key: 'a', value: 1 },
+					{ key: 'b', value: 2 },
+				],
+			},
+			{ a: 1, b: 2 },
+		);
+	});
+
+	test('jumping to a state writes it back without reporting it', () => {
+		const { extension, connection, dispatch } = createFakeExtension();
+		const store = new Store({ count: 0 });
+		const seen: number[] = [];
+		store.on('count', (count) => seen.push(count));
+		connectDevtools(store, { extension });
+
+		store.setState('count', 5);
+		dispatch('JUMP_TO_STATE', { count: 2 });
+
+		expect(store.getState('count')).toBe(2);
+		expect(seen).toEqual([5, 2]);
+		expect(connection.send).toHaveBeenCalledTimes(1);
+
+		// Later changes are reported again
+		store.setState('count', 3);
+		expect(connection.send).toHaveBeenCalledTimes(2);
+	});
+
+	test('jumping works in batch mode', async () => {
+		const { extension, connection, dispatch } = createFakeExtension();
+		const store = new Store({ count: 0 }, { batchUpdates: true });
+		connectDevtools(store, { extension });
+
+		dispatch('JUMP_TO_ACTION', { count: 7 });
+		await new Promise((r) => setTimeout(r, 0));
+
+		expect(store.getState('count')).toBe(7);
+		expect(connection.send).not.toHaveBeenCalled();
+	});
+
+	test('reset, commit and rollback', () => {
+		const { extension, connection, dispatch } = createFakeExtension();
+		const store = new Store({ count: 0 });
+		connectDevtools(store, { extension });
+
+		store.setState('count', 3);
+		dispatch('COMMIT');
+		expect(connection.init).toHaveBeenLastCalledWith({ count: 3 });
+
+		store.setState('count', 4);
+		dispatch('ROLLBACK', { count: 3 });
+		expect(store.getState('count')).toBe(3);
+		expect(connection.init).toHaveBeenLastCalledWith({ count: 3 });
+
+		dispatch('RESET');
+		expect(store.getState('count')).toBe(0);
+		expect(connection.init).toHaveBeenLastCalledWith({ count: 0 });
+	});
+
+	test('importing a state applies the current state and shows the imported history', () => {
+		const { extension, connection, dispatch } = createFakeExtension();
+		const store = new Store({ count: 0 });
+		connectDevtools(store, { extension });
+
+		const nextLiftedState = {
+			computedStates: [{ state: { count: 0 } }, { state: { count: 10 } }],
+			currentStateIndex: 1,
+		};
+		dispatch('IMPORT_STATE', undefined, { nextLiftedState });
+
+		expect(store.getState('count')).toBe(10);
+		expect(connection.send).toHaveBeenCalledWith(null, nextLiftedState);
+	});
+
+	test('derived keys are recomputed rather than written back', () => {
+		const { extension, connection, dispatch } = createFakeExtension();
+		const store = new Store({ count: 1 }).derive('double', (get) => get('count') * 2);
+		store.on('double', () => {});
+		connectDevtools(store, { extension });
+
+		dispatch('JUMP_TO_STATE', { count: 5, double: 100 });
+
+		expect(store.getState('double')).toBe(10);
+		expect(connection.send).not.toHaveBeenCalled();
+
+		store.setState('count', 6);
+		expect(connection.send).toHaveBeenLastCalledWith(
+			{ type: 'setState', key: 'double', value: 12 },
+			{ count: 6, double: 12 },
+		);
+	});
+
+	test('disconnecting stops reporting and listening', () => {
+		const { extension, connection, listeners } = createFakeExtension();
+		const store = new Store({ count: 0 });
+		const disconnect = connectDevtools(store, { extension });
+
+		disconnect();
+		store.setState('count', 1);
+
+		expect(connection.send).not.toHaveBeenCalled();
+		expect(listeners.size).toBe(0);
+		expect(connection.unsubscribe).toHaveBeenCalled();
+	});
+
+	test('does nothing without an extension', () => {
+		const store = new Store({ count: 0 });
+		const disconnect = connectDevtools(store);
+		store.setState('count', 1);
+		disconnect();
+	});
+});
@@ -0,0 +1,181 @@
+// @vitest-environment jsdom
+import { describe, expect, test, vi } from 'vitest';
+import { Expect, Equal } from 'type-testing';
+import React, { act } from 'react';
+import { createRoot } from 'react-dom/client';
+import Store, { produce, useStoreUpdate, useStoreValue } from 'react-granular-store';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+interface Item {
+	id: number;
+	label: string;
+}
+
+const createStore = () =>
+	new Store({
+		cart: {
+			items: [{ id: 1, label: 'Apple' }] as Item[],
+			meta: { updated: 0, tags: ['fruit'] },
+		},
+		count: 0,
+	});
+
+describe('Store#update', () => {
+	test('makes a new value from mutations and shares what did not change', () => {
+		const store = createStore();
+		const before = store.getState('cart');
+		const callback = vi.fn();
+		store.on('cart', callback);
+
+		store.update('cart', (draft) => {
+			draft.items.push({ id: 2, label: 'Pear' });
+		});
+		const after = store.getState('cart');
+
+		expect(after.items).toEqual([
+			{ id: 1, label: 'Apple' },
+			{ id: 2, label: 'Pear' },
+		]);
+		expect(before.items).toHaveLength(1);
+		expect(after).not.toBe(before);
+		expect(after.items).not.toBe(before.items);
+		expect(after.items[0]).toBe(before.items[0]);
+		expect(after.meta).toBe(before.meta);
+		expect(callback).toHaveBeenCalledTimes(1);
+	});
+
+	test('does not notify when nothing changes', () => {
+		const store = createStore();
+		const before = store.getState('cart');
+		const callback = vi.fn();
+		store.on('cart', callback);
+
+		store.update('cart', (draft) => {
+			draft.meta.updated = 0;
+			void draft.items[0]!.label;
+		});
+
+		expect(store.getState('cart')).toBe(before);
+		expect(callback).not.toHaveBeenCalled();
+	});
+
+	test('supports nested writes, deletes and array methods', () => {
+		const store = new Store({
+			data: { a: { b: { c: 1 } }, list: [3, 1, 2], extra: 'x' as string | undefined },
+		});
+		const before = store.getState('data');
+
+		store.update('data', (draft) => {
+			draft.a.b.c++;
+			draft.list.sort();
+			draft.list.splice(0, 1);
+			delete draft.extra;
+		});
+
+		expect(store.getState('data')).toEqual({ a: { b: { c: 2 } }, list: [2, 3] });
+		expect(before).toEqual({ a: { b: { c: 1 } }, list: [3, 1, 2], extra: 'x' });
+	});
+
+	test('keeps drafts that are moved within the value', () => {
+		const store = createStore();
+		store.update('cart', (draft) => {
+			const first = draft.items[0]!;
+			first.label = 'Green apple';
+			draft.items = [{ id: 3, label: 'Plum' }, first];
+		});
+
+		expect(store.getState('cart').items).toEqual([
+			{ id: 3, label: 'Plum' },
+			{ id: 1, label: 'Green apple' },
+		]);
+	});
+
+	test('keeps a draft that is referenced from two places', () => {
+		const store = new Store({
+			list: { items: [{ id: 1, label: 'Apple' }] as Item[], selected: null as Item | null },
+		});
+		store.update('list', (draft) => {
+			draft.selected = draft.items[0]!;
+		});
+		const list = store.getState('list');
+		expect(list.selected).toBe(list.items[0]);
+		expect(JSON.stringify(list)).toBe('{"items":[{"id":1,"label":"Apple"}],"selected":{"id":1,"label":"Apple"}}');
+
+		const changed = produce({ a: { m: { y: 1 } }, b: null as { y: number } | null }, (draft) => {
+			draft.b = draft.a.m;
+			draft.a.m.y = 9;
+		});
+		expect(changed.b).toBe(changed.a.m);
+		expect(JSON.stringify(changed)).toBe('{"a":{"m":{"y":9}},"b":{"y":9}}');
+	});
+
+	test('a recipe can return a new value instead', () => {
+		const store = createStore();
+		store.update('count', (count) => count + 1);
+		expect(store.getState('count')).toBe(1);
+
+		expect(() =>
+			store.update('cart', (draft) => {
+				draft.meta.updated = 1;
+				return { items: [], meta: draft.meta };
+			}),
+		).toThrow('not both');
+	});
+
+	test('works on frozen values', () => {
+		const value = Object.freeze({ list: Object.freeze([1, 2]) });
+		const next = produce(value, (draft) => {
+			(draft.list as number[]).push(3);
+		});
+		expect(next.list).toEqual([1, 2, 3]);
+		expect(value.list).toEqual([1, 2]);
+	});
+
+	test('drafts cannot be used after the recipe finishes', () => {
+		const store = createStore();
+		let leaked: { updated: number } | undefined;
+		store.update('cart', (draft) => {
+			leaked = draft.meta;
+		});
+		expect(() => leaked!.updated).toThrow();
+	});
+});
+
+describe('useStoreUpdate with the draft option', () => {
+	test('returns a function that takes a recipe', async () => {
+		const store = createStore();
+		let addItem: ((label: string) => void) | undefined;
+
+		function Cart() {
+			const cart = useStoreValue(store, 'cart');
+			const updateCart = useStoreUpdate(store, 'cart', { draft: true });
+			type TEST_USESTOREUPDATE_DRAFT = Expect<
+				Equal<typeof updateCart, (recipe: (draft: typeof cart) => typeof cart | void) => void>
+			>;
+			addItem = (label) =>
+				updateCart((draft) => {
+					draft.items.push({ id: draft.items.length + 1, label });
+				});
+			return <>{cart.items.map((item) => item.label).join(',')}</>;
+		}
+
+		const container = document.createElement('div');
+		document.body.appendChild(container);
+		const root = createRoot(container);
+
+		await act(async () => {
+			root.render(<Cart />);
+		});
+		await act(async () => {
+			addItem?.('Pear');
+		});
+		expect(container.textContent).toBe('Apple,Pear');
+
+		await act(async () => {
+			root.unmount();
+		});
+		container.remove();
+	});
+});
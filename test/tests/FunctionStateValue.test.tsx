@@ -11,8 +11,8 @@ import Store, { useStoreValue } from 'react-granular-store';
 (globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
 
 // What this test verifies (current behavior):
-// - The hook (useStoreValue) wraps React's setState to ensure function values are treated as literal values,
-//   not as functional updaters. This prevents React from calling the function when it's meant to be stored.
+// - The hook (useStoreValue) reads versioned snapshots that wrap the value, so function values are treated as literal
+//   values, not as functional updaters. This prevents React from calling the function when it's meant to be stored.
 // - The Store API itself still treats a bare function argument to setState as a functional updater. Therefore,
 //   to store a function as state, callers must wrap it: store.setState(key, () => myFunction).
 // - Given the above, after setting a function value via the wrapper, the hook should expose the function itself.
@@ -53,7 +53,7 @@ describe('useStoreValue: function-as-state via subscription', () => {
 
 		const last = seen.at(-1) as number | Fn | undefined;
 		// With the hook fix and the store.setState wrapper, we should see the function itself here.
-		// If this assertion fails as 'number', it means either the hook didn't wrap setState,
+		// If this assertion fails as 'number', it means either the hook didn't unwrap the snapshot,
 		// or the store attempted to treat the function as an updater.
 		if (typeof last === 'function') {
 			expect(last(2)).toBe(3);
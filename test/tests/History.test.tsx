@@ -0,0 +1,196 @@
+// @vitest-environment jsdom
+import { describe, expect, test, vi } from 'vitest';
+import React, { act } from 'react';
+import { createRoot } from 'react-dom/client';
+import Store, { createHistory, useStoreHistory } from 'react-granular-store';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+describe('Store#subscribeCommits', () => {
+	test('reports each commit once with all of its changes', async () => {
+		const store = new Store({ a: 0, b: 0 }, { batchUpdates: true });
+		const callback = vi.fn();
+		store.subscribeCommits(callback);
+
+		store.setState('a', 1);
+		store.setState('b', 1);
+		await new Promise((r) => setTimeout(r, 0));
+
+		expect(callback).toHaveBeenCalledTimes(1);
+		expect(callback).toHaveBeenCalledWith([
+			{ key: 'a', newValue: 1, oldValue: 0 },
+			{ key: 'b', newValue: 1, oldValue: 0 },
+		]);
+	});
+
+	test('reports commits before key listeners', () => {
+		const store = new Store({ data: '', updated: 0 });
+		store.on('data', () => store.setState('updated', 1));
+		const keys: string[][] = [];
+		store.subscribeCommits((changes) => keys.push(changes.map((change) => change.key)));
+
+		store.setState('data', 'new');
+
+		expect(keys).toEqual([['data'], ['updated']]);
+	});
+});
+
+describe('createHistory', () => {
+	test('undoes and redoes changes', () => {
+		const store = new Store({ text: '' });
+		const history = createHistory(store);
+
+		store.setState('text', 'a');
+		store.setState('text', 'ab');
+		expect(history.canUndo).toBe(true);
+		expect(history.canRedo).toBe(false);
+
+		history.undo();
+		expect(store.getState('text')).toBe('a');
+		expect(history.canRedo).toBe(true);
+
+		history.undo();
+		expect(store.getState('text')).toBe('');
+		expect(history.canUndo).toBe(false);
+		expect(history.undo()).toBe(false);
+
+		history.redo();
+		history.redo();
+		expect(store.getState('text')).toBe('ab');
+		expect(history.canRedo).toBe(false);
+	});
+
+	test('a new change clears the redo steps', () => {
+		const store = new Store({ text: '' });
+		const history = createHistory(store);
+
+		store.setState('text', 'a');
+		history.undo();
+		store.setState('text', 'b');
+
+		expect(history.canRedo).toBe(false);
+		history.undo();
+		expect(store.getState('text')).toBe('');
+	});
+
+	test('only records the configured keys', () => {
+		const store = new Store({ text: '', cursor: 0 });
+		const history = createHistory(store, { keys: ['text'] });
+
+		store.setState('cursor', 5);
+		expect(history.canUndo).toBe(false);
+
+		store.setMany({ text: 'hello', cursor: 5 });
+		history.undo();
+		expect(store.getState('text')).toBe('');
+		expect(store.getState('cursor')).toBe(5);
+	});
+
+	test('a transaction is one undo step', () => {
+		const store = new Store({ firstName: 'John', lastName: 'Doe' });
+		const history = createHistory(store);
+
+		store.transaction(() => {
+			store.setState('firstName', 'Jane');
+			store.setState('lastName', 'Smith');
+		});
+		history.undo();
+
+		expect(store.getState('firstName')).toBe('John');
+		expect(store.getState('lastName')).toBe('Doe');
+		expect(history.canUndo).toBe(false);
+	});
+
+	test('a batch is one undo step', async () => {
+		const store = new Store({ a: 0, b: 0 }, { batchUpdates: true });
+		const history = createHistory(store);
+
+		store.setState('a', 1);
+		store.setState('b', 1);
+		await new Promise((r) => setTimeout(r, 0));
+
+		history.undo();
+		await new Promise((r) => setTimeout(r, 0));
+
+		expect(store.getState('a')).toBe(0);
+		expect(store.getState('b')).toBe(0);
+		expect(history.canUndo).toBe(false);
+		expect(history.canRedo).toBe(true);
+	});
+
+	test('drops the oldest steps past the max depth', () => {
+		const store = new Store({ count: 0 });
+		const history = createHistory(store, { maxDepth: 2 });
+
+		store.setState('count', 1);
+		store.setState('count', 2);
+		store.setState('count', 3);
+
+		expect(history.undo()).toBe(true);
+		expect(history.undo()).toBe(true);
+		expect(history.undo()).toBe(false);
+		expect(store.getState('count')).toBe(1);
+	});
+
+	test('notifies subscribers when the status changes', () => {
+		const store = new Store({ count: 0 });
+		const history = createHistory(store);
+		const callback = vi.fn();
+		history.subscribe(callback);
+
+		store.setState('count', 1);
+		// canUndo doesn't change, so there's nothing to notify
+		store.setState('count', 2);
+		expect(callback).toHaveBeenCalledTimes(1);
+		expect(history.getStatus()).toEqual({ canUndo: true, canRedo: false });
+	});
+
+	test('stop stops recording', () => {
+		const store = new Store({ count: 0 });
+		const history = createHistory(store);
+		history.stop();
+
+		store.setState('count', 1);
+		expect(history.canUndo).toBe(false);
+	});
+});
+
+describe('useStoreHistory', () => {
+	test('re-renders when canUndo and canRedo change', async () => {
+		const store = new Store({ count: 0 });
+		const history = createHistory(store);
+		let latest: ReturnType<typeof useStoreHistory> | undefined;
+
+		function Toolbar() {
+			latest = useStoreHistory(history);
+			return null;
+		}
+
+		const container = document.createElement('div');
+		document.body.appendChild(container);
+		const root = createRoot(container);
+
+		await act(async () => {
+			root.render(<Toolbar />);
+		});
+		expect(latest?.canUndo).toBe(false);
+
+		await act(async () => {
+			store.setState('count', 1);
+		});
+		expect(latest?.canUndo).toBe(true);
+
+		await act(async () => {
+			latest?.undo();
+		});
+		expect(latest?.canUndo).toBe(false);
+		expect(latest?.canRedo).toBe(true);
+		expect(store.getState('count')).toBe(0);
+
+		await act(async () => {
+			root.unmount();
+		});
+		container.remove();
+	});
+});
@@ -0,0 +1,157 @@
+// @vitest-environment jsdom
+import { describe, expect, test, vi } from 'vitest';
+import React, { act } from 'react';
+import { createRoot } from 'react-dom/client';
+import Store, { RecordStore, useStoreValue } from 'react-granular-store';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+describe('reset', () => {
+	test('sets keys back to their defaults without touching the object passed in', () => {
+		const defaults = { count: 0, name: 'Ada' };
+		const store = new Store(defaults);
+		const callback = vi.fn();
+		store.subscribeCommits(callback);
+
+		store.setState('count', 5);
+		store.setState('name', 'Grace');
+		expect(defaults).toEqual({ count: 0, name: 'Ada' });
+
+		store.reset('count');
+		expect(store.getState('count')).toBe(0);
+		expect(store.getState('name')).toBe('Grace');
+
+		store.setState('count', 3);
+		callback.mockClear();
+		store.resetAll();
+		expect(store.state).toEqual({ count: 0, name: 'Ada' });
+		expect(callback).toHaveBeenCalledTimes(1);
+	});
+
+	test('resetAll removes records that were added after creation', () => {
+		const store = new RecordStore<string>({ a: 'A' });
+		store.setState('b', 'B');
+		store.setState('a', 'changed');
+
+		store.resetAll();
+
+		expect(store.keys()).toEqual(['a']);
+		expect(store.getState('a')).toBe('A');
+	});
+});
+
+describe('dispose', () => {
+	test('releases listeners and pending batches and ignores later writes', () => {
+		vi.useFakeTimers();
+		try {
+			const store = new Store({ count: 0 }, { batchUpdates: true });
+			const callback = vi.fn();
+			store.on('count', callback);
+
+			store.setState('count', 1);
+			store.dispose();
+			vi.runAllTimers();
+
+			expect(store.isDisposed).toBe(true);
+			expect(callback).not.toHaveBeenCalled();
+			expect(store.hasPendingUpdates).toBe(false);
+
+			store.setState('count', 2);
+			store.flush();
+			expect(store.getState('count')).toBe(0);
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+});
+
+describe('onObserved', () => {
+	test('starts on the first subscriber and cleans up after the last', () => {
+		const store = new Store({ price: 0, other: 0 });
+		const cleanup = vi.fn();
+		const start = vi.fn(() => cleanup);
+		store.onObserved('price', start);
+
+		store.subscribe('other', () => {});
+		expect(start).not.toHaveBeenCalled();
+
+		const first = store.subscribe('price', () => {});
+		const second = store.subscribe('price', () => {});
+		expect(start).toHaveBeenCalledTimes(1);
+
+		first();
+		expect(cleanup).not.toHaveBeenCalled();
+		second();
+		expect(cleanup).toHaveBeenCalledTimes(1);
+
+		const third = store.subscribe('price', () => {});
+		expect(start).toHaveBeenCalledTimes(2);
+		store.dispose();
+		expect(cleanup).toHaveBeenCalledTimes(2);
+		third();
+		expect(cleanup).toHaveBeenCalledTimes(2);
+	});
+
+	test('adding the same callback twice starts it once', () => {
+		const store = new Store({ price: 0 });
+		const cleanup = vi.fn();
+		const start = vi.fn(() => cleanup);
+		store.onObserved('price', start);
+		const callback = () => {};
+
+		store.on('price', callback);
+		store.on('price', callback);
+		store.off('price', callback);
+
+		expect(start).toHaveBeenCalledTimes(1);
+		expect(cleanup).toHaveBeenCalledTimes(1);
+	});
+
+	test('starts straight away if the key is already observed, and can be removed', () => {
+		const store = new Store({ price: 0 });
+		store.subscribe('price', () => {});
+		const cleanup = vi.fn();
+		const start = vi.fn(() => cleanup);
+
+		const remove = store.onObserved('price', start);
+		expect(start).toHaveBeenCalledTimes(1);
+
+		remove();
+		expect(cleanup).toHaveBeenCalledTimes(1);
+		remove();
+		expect(cleanup).toHaveBeenCalledTimes(1);
+	});
+
+	test('follows components that read the key', async () => {
+		const store = new Store({ price: 0 });
+		store.onObserved('price', () => {
+			const timer = setInterval(() => store.setState('price', (price) => price + 1), 10);
+			return () => clearInterval(timer);
+		});
+
+		function Price() {
+			return <>{useStoreValue(store, 'price')}</>;
+		}
+
+		const container = document.createElement('div');
+		document.body.appendChild(container);
+		const root = createRoot(container);
+
+		await act(async () => {
+			root.render(<Price />);
+		});
+		await act(async () => {
+			await new Promise((r) => setTimeout(r, 35));
+		});
+		expect(store.getState('price')).toBeGreaterThan(0);
+
+		await act(async () => {
+			root.unmount();
+		});
+		const price = store.getState('price');
+		await new Promise((r) => setTimeout(r, 30));
+		expect(store.getState('price')).toBe(price);
+		container.remove();
+	});
+});
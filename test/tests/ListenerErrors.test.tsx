@@ -0,0 +1,133 @@
+// @vitest-environment jsdom
+import { describe, expect, test, vi } from 'vitest';
+import React, { act } from 'react';
+import { createRoot } from 'react-dom/client';
+import Store, { useStoreValue } from 'react-granular-store';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+const boom = new Error('boom');
+const throwing = () => {
+	throw boom;
+};
+
+describe('listener errors', () => {
+	test('every listener is called and errors go to onError', () => {
+		const onError = vi.fn();
+		const store = new Store({ count: 0 }, { onError });
+		const before = vi.fn();
+		const after = vi.fn();
+		const all = vi.fn();
+		store.on('count', before);
+		store.on('count', throwing);
+		store.on('count', after);
+		store.subscribeAll(all);
+
+		store.setState('count', 1);
+
+		expect(before).toHaveBeenCalledWith(1);
+		expect(after).toHaveBeenCalledWith(1);
+		expect(all).toHaveBeenCalledWith('count', 1, 0);
+		expect(onError).toHaveBeenCalledTimes(1);
+		expect(onError).toHaveBeenCalledWith(boom, { key: 'count', listener: throwing });
+	});
+
+	test('commit and store-wide listeners are isolated too', () => {
+		const onError = vi.fn();
+		const store = new Store({ count: 0 }, { onError });
+		const callback = vi.fn();
+		store.subscribeCommits(throwing);
+		store.subscribeAll(throwing);
+		store.on('count', callback);
+
+		store.setState('count', 1);
+
+		expect(callback).toHaveBeenCalledWith(1);
+		expect(onError).toHaveBeenCalledWith(boom, { key: undefined, listener: throwing });
+		expect(onError).toHaveBeenCalledWith(boom, { key: 'count', listener: throwing });
+	});
+
+	test('a batch always finishes', () => {
+		const onError = vi.fn();
+		const store = new Store({ a: 0, b: 0 }, { batchUpdates: true, scheduler: () => {}, onError });
+		const callback = vi.fn();
+		store.on('a', throwing);
+		store.on('b', callback);
+
+		store.setState('a', 1);
+		store.setState('b', 1);
+		store.flush();
+
+		expect(store.state).toEqual({ a: 1, b: 1 });
+		expect(callback).toHaveBeenCalledWith(1);
+		expect(store.hasPendingUpdates).toBe(false);
+
+		store.setState('b', 2);
+		store.flush();
+		expect(callback).toHaveBeenCalledWith(2);
+	});
+
+	test('a derived getter that throws while a commit is notifying goes to onError', () => {
+		const onError = vi.fn();
+		const store = new Store({ a: 1, b: 1 }, { onError }).derive('double', (get) => {
+			if (get('a') === 2) throw boom;
+			return get('a') * 2;
+		});
+		const double = vi.fn();
+		const callback = vi.fn();
+		store.on('double', double);
+		store.on('b', callback);
+
+		store.setMany({ a: 2, b: 2 });
+
+		expect(callback).toHaveBeenCalledWith(2);
+		expect(onError).toHaveBeenCalledWith(boom, expect.objectContaining({ key: 'double' }));
+		expect(() => store.getState('double')).toThrow(boom);
+
+		store.setState('a', 3);
+		expect(double).toHaveBeenCalledWith(6);
+	});
+
+	test('errors are rethrown asynchronously by default', () => {
+		vi.useFakeTimers();
+		try {
+			const store = new Store({ count: 0 });
+			const callback = vi.fn();
+			store.on('count', throwing);
+			store.on('count', callback);
+
+			expect(() => store.setState('count', 1)).not.toThrow();
+			expect(callback).toHaveBeenCalled();
+			expect(() => vi.runAllTimers()).toThrow(boom);
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	test('components still update when another listener throws', async () => {
+		const store = new Store({ count: 0 }, { onError: () => {} });
+		store.on('count', throwing);
+
+		function Count() {
+			return <>{useStoreValue(store, 'count')}</>;
+		}
+
+		const container = document.createElement('div');
+		document.body.appendChild(container);
+		const root = createRoot(container);
+
+		await act(async () => {
+			root.render(<Count />);
+		});
+		await act(async () => {
+			store.setState('count', 1);
+		});
+		expect(container.textContent).toBe('1');
+
+		await act(async () => {
+			root.unmount();
+		});
+		container.remove();
+	});
+});
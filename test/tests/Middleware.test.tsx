@@ -0,0 +1,159 @@
+// @vitest-environment jsdom
+import { describe, expect, test, vi } from 'vitest';
+import { Expect, Equal } from 'type-testing';
+import React, { act } from 'react';
+import { createRoot } from 'react-dom/client';
+import Store, { StoreMiddleware, useStoreState } from 'react-granular-store';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+type UserState = { name: string; age: number };
+
+// The write narrows on the key
+const clampAge: StoreMiddleware<UserState> = (write, next) => {
+	if (write.key === 'age') {
+		type TEST_MIDDLEWARE_VALUE = Expect<Equal<typeof write.value, number>>;
+		type TEST_MIDDLEWARE_PREV = Expect<Equal<typeof write.prevValue, number>>;
+		next(Math.max(0, write.value));
+		return;
+	}
+	type TEST_MIDDLEWARE_OTHER = Expect<Equal<typeof write.value, string>>;
+	next();
+};
+
+describe('Store middleware', () => {
+	test('can transform a write', () => {
+		const store = new Store<UserState>({ name: 'John Doe', age: 30 }, { middleware: [clampAge] });
+		store.setState('age', -5);
+		expect(store.getState('age')).toBe(0);
+		store.setState('name', 'Jane Doe');
+		expect(store.getState('name')).toBe('Jane Doe');
+	});
+
+	test('can veto a write', () => {
+		const store = new Store({ locked: true, value: 0 });
+		store.use((write, next) => {
+			if (write.key === 'value' && store.getState('locked')) return;
+			next();
+		});
+		const callback = vi.fn();
+		store.on('value', callback);
+
+		store.setState('value', 1);
+		expect(store.getState('value')).toBe(0);
+		expect(callback).not.toHaveBeenCalled();
+
+		store.setState('locked', false);
+		store.setState('value', 1);
+		expect(store.getState('value')).toBe(1);
+	});
+
+	test('can defer a write', async () => {
+		const store = new Store({ value: 0 });
+		store.use((_write, next) => {
+			setTimeout(() => next(), 0);
+		});
+
+		store.setState('value', 1);
+		expect(store.getState('value')).toBe(0);
+
+		await new Promise((r) => setTimeout(r, 0));
+
+		expect(store.getState('value')).toBe(1);
+	});
+
+	test('runs in order and sees the previous and proposed values', () => {
+		const seen: unknown[] = [];
+		const store = new Store(
+			{ count: 1 },
+			{
+				middleware: [
+					(write, next) => {
+						seen.push(['first', write.prevValue, write.value]);
+						next(write.value * 10);
+					},
+				],
+			},
+		);
+		store.use((write, next) => {
+			seen.push(['second', write.prevValue, write.value]);
+			next();
+		});
+
+		store.setState('count', (current) => current + 1);
+
+		expect(seen).toEqual([
+			['first', 1, 2],
+			['second', 1, 20],
+		]);
+		expect(store.getState('count')).toBe(20);
+	});
+
+	test('use returns a function that removes the middleware', () => {
+		const store = new Store({ count: 0 });
+		const remove = store.use((_write, next) => next(100));
+
+		store.setState('count', 1);
+		expect(store.getState('count')).toBe(100);
+
+		remove();
+		store.setState('count', 1);
+		expect(store.getState('count')).toBe(1);
+	});
+
+	test('applies in batch mode at the time of the write', async () => {
+		const middleware = vi.fn<StoreMiddleware<{ count: number }>>((write, next) => next(write.value * 2));
+		const store = new Store({ count: 1 }, { batchUpdates: true, middleware: [middleware] });
+		const seen: number[] = [];
+		store.on('count', (count) => seen.push(count));
+
+		store.setState('count', (current) => current + 1);
+		expect(middleware).toHaveBeenCalledTimes(1);
+		expect(store.getState('count')).toBe(4);
+		store.setState('count', (current) => current + 1);
+		expect(store.getState('count')).toBe(10);
+
+		await new Promise((r) => setTimeout(r, 0));
+
+		expect(seen).toEqual([10]);
+	});
+
+	test('applies to writes inside transactions', () => {
+		const store = new Store<UserState>({ name: 'John Doe', age: 30 }, { middleware: [clampAge] });
+		store.setMany({ name: 'Jane Doe', age: -1 });
+		expect(store.getState('age')).toBe(0);
+		expect(store.getState('name')).toBe('Jane Doe');
+	});
+
+	test('applies to writes from the hooks', async () => {
+		const store = new Store<UserState>({ name: 'John Doe', age: 30 }, { middleware: [clampAge] });
+		let setAge: (age: number) => void = () => {};
+		let latest = -1;
+
+		function App() {
+			const [age, setAgeState] = useStoreState(store, 'age');
+			latest = age;
+			setAge = setAgeState;
+			return null;
+		}
+
+		const container = document.createElement('div');
+		document.body.appendChild(container);
+		const root = createRoot(container);
+
+		await act(async () => {
+			root.render(<App />);
+		});
+		await act(async () => {
+			setAge(-10);
+		});
+
+		expect(latest).toBe(0);
+
+		await act(async () => {
+			root.unmount();
+		});
+		container.remove();
+	});
+});
@@ -0,0 +1,195 @@
+// @vitest-environment jsdom
+import { describe, expect, test, vi } from 'vitest';
+import { Expect, Equal } from 'type-testing';
+import React, { act } from 'react';
+import { createRoot } from 'react-dom/client';
+import Store, { useStoreValues } from 'react-granular-store';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+const typedStore = new Store({ name: 'John Doe', age: 30, active: true });
+
+typedStore.subscribeKeys(['name', 'age'], (key, newValue, oldValue) => {
+	type TEST_SUBSCRIBEKEYS_KEY = Expect<Equal<typeof key, 'name' | 'age'>>;
+	type TEST_SUBSCRIBEKEYS_NEW = Expect<Equal<typeof newValue, string | number>>;
+	type TEST_SUBSCRIBEKEYS_OLD = Expect<Equal<typeof oldValue, string | number>>;
+});
+
+typedStore.subscribeAll((key) => {
+	type TEST_SUBSCRIBEALL_KEY = Expect<Equal<typeof key, 'name' | 'age' | 'active'>>;
+});
+
+// @ts-expect-error - should error because 'notInStore' is not in the store
+typedStore.subscribeKeys(['name', 'notInStore'], () => {});
+
+const getStore = () => (Math.random() > 0.5 ? typedStore : null);
+
+const TypedApp = () => {
+	const [name, age] = useStoreValues(typedStore, ['name', 'age']);
+	type TEST_USESTOREVALUES_NAME = Expect<Equal<typeof name, string>>;
+	type TEST_USESTOREVALUES_AGE = Expect<Equal<typeof age, number>>;
+
+	const [nullableName] = useStoreValues(getStore(), ['name']);
+	type TEST_USESTOREVALUES_NULL = Expect<Equal<typeof nullableName, string | null>>;
+
+	return null;
+};
+
+describe('Store#subscribeKeys', () => {
+	test('calls back for each of the keys with new and old values', () => {
+		const store = new Store({ a: 0, b: 'x', c: false });
+		const seen: unknown[][] = [];
+		const unsubscribe = store.subscribeKeys(['a', 'b'], (...args) => seen.push(args));
+
+		store.setState('a', 1);
+		store.setState('c', true);
+		store.setState('b', 'y');
+		store.setState('a', 2);
+		expect(seen).toEqual([
+			['a', 1, 0],
+			['b', 'y', 'x'],
+			['a', 2, 1],
+		]);
+
+		unsubscribe();
+		store.setState('a', 3);
+		expect(seen).toHaveLength(3);
+	});
+});
+
+describe('Store#subscribeAll', () => {
+	test('calls back for every key with new and old values', () => {
+		const store = new Store({ a: 0, b: 'x' });
+		const callback = vi.fn();
+		const unsubscribe = store.subscribeAll(callback);
+
+		store.setState('a', 1);
+		store.setState('b', 'y');
+		expect(callback.mock.calls).toEqual([
+			['a', 1, 0],
+			['b', 'y', 'x'],
+		]);
+
+		unsubscribe();
+		store.setState('a', 2);
+		expect(callback).toHaveBeenCalledTimes(2);
+	});
+
+	test('reports batched updates once per key at resolution', async () => {
+		const store = new Store({ a: 0, b: 0 }, { batchUpdates: true });
+		const callback = vi.fn();
+		store.subscribeAll(callback);
+
+		store.setState('a', 1);
+		store.setState('a', 2);
+		store.setState('b', 1);
+		expect(callback).not.toHaveBeenCalled();
+
+		await new Promise((r) => setTimeout(r, 0));
+
+		expect(callback.mock.calls).toEqual([
+			['a', 2, 0],
+			['b', 1, 0],
+		]);
+	});
+
+	test('observes derived keys', () => {
+		const store = new Store({ count: 1 }).derive('double', (get) => get('count') * 2);
+		const callback = vi.fn();
+		store.subscribeAll(callback);
+
+		store.setState('count', 2);
+		expect(callback.mock.calls).toEqual([
+			['count', 2, 1],
+			['double', 4, 2],
+		]);
+	});
+});
+
+describe('useStoreValues', () => {
+	const mount = async (element: React.ReactElement) => {
+		const container = document.createElement('div');
+		document.body.appendChild(container);
+		const root = createRoot(container);
+		await act(async () => {
+			root.render(element);
+		});
+		return async () => {
+			await act(async () => {
+				root.unmount();
+			});
+			container.remove();
+		};
+	};
+
+	test('returns the values and re-renders once when several keys change', async () => {
+		const store = new Store({ name: 'John Doe', age: 30, other: 0 });
+		const renders: Array<[string, number]> = [];
+
+		function Header() {
+			const [name, age] = useStoreValues(store, ['name', 'age']);
+			renders.push([name, age]);
+			return null;
+		}
+
+		const unmount = await mount(<Header />);
+		expect(renders).toEqual([['John Doe', 30]]);
+
+		await act(async () => {
+			store.setState('name', 'Jane Doe');
+			store.setState('age', 31);
+		});
+		expect(renders).toEqual([
+			['John Doe', 30],
+			['Jane Doe', 31],
+		]);
+
+		// Keys that aren't watched don't cause a render
+		await act(async () => {
+			store.setState('other', 1);
+		});
+		expect(renders).toHaveLength(2);
+
+		await unmount();
+	});
+
+	test('re-renders once per resolved batch', async () => {
+		const store = new Store({ a: 0, b: 0, c: 0 }, { batchUpdates: true });
+		let renders = 0;
+		let latest: readonly number[] = [];
+
+		function Values() {
+			latest = useStoreValues(store, ['a', 'b', 'c']);
+			renders++;
+			return null;
+		}
+
+		const unmount = await mount(<Values />);
+
+		await act(async () => {
+			store.setState('a', 1);
+			store.setState('b', 2);
+			store.setState('c', 3);
+			await new Promise((r) => setTimeout(r, 0));
+		});
+		expect(renders).toBe(2);
+		expect(latest).toEqual([1, 2, 3]);
+
+		await unmount();
+	});
+
+	test('returns nulls for a null store', async () => {
+		let latest: unknown;
+
+		function Values({ store }: { store: Store<{ a: number; b: number }> | null }) {
+			latest = useStoreValues(store, ['a', 'b']);
+			return null;
+		}
+
+		const unmount = await mount(<Values store={null} />);
+		expect(latest).toEqual([null, null]);
+
+		await unmount();
+	});
+});
@@ -0,0 +1,264 @@
+// @vitest-environment jsdom
+import { describe, expect, test, vi } from 'vitest';
+import React, { act } from 'react';
+import { createRoot } from 'react-dom/client';
+import Store, { PersistStorage, createMemoryStorage, persist, useStoreHydrated } from 'react-granular-store';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+// Wraps a storage so every read and write resolves on a later tick
+const createAsyncStorage = (storage: PersistStorage): PersistStorage => ({
+	getItem: async (key) => storage.getItem(key),
+	setItem: async (key, value) => storage.setItem(key, value),
+	removeItem: async (key) => storage.removeItem(key),
+});
+
+const manifest = (version: number, keys: string[]) => JSON.stringify({ version, keys });
+
+describe('persist', () => {
+	test('hydrates synchronously from synchronous storage', () => {
+		const storage = createMemoryStorage({
+			user: manifest(0, ['name']),
+			'user:name': JSON.stringify('Jane Doe'),
+		});
+		const store = new Store({ name: 'John Doe', age: 30 });
+		const handle = persist(store, { name: 'user', storage });
+
+		expect(handle.isHydrated).toBe(true);
+		expect(store.getState('name')).toBe('Jane Doe');
+		expect(store.getState('age')).toBe(30);
+	});
+
+	test('hydrates from asynchronous storage', async () => {
+		const storage = createMemoryStorage({
+			user: manifest(0, ['age']),
+			'user:age': '42',
+		});
+		const store = new Store({ name: 'John Doe', age: 30 });
+		const handle = persist(store, { name: 'user', storage: createAsyncStorage(storage) });
+
+		expect(handle.isHydrated).toBe(false);
+		expect(store.getState('age')).toBe(30);
+
+		await handle.hydrated;
+
+		expect(handle.isHydrated).toBe(true);
+		expect(store.getState('age')).toBe(42);
+	});
+
+	test('changes made before async hydration finishes win', async () => {
+		const memory = createMemoryStorage({
+			user: manifest(0, ['name', 'age']),
+			'user:name': JSON.stringify('Jane Doe'),
+			'user:age': '42',
+		});
+		const store = new Store({ name: 'John Doe', age: 30 });
+		const handle = persist(store, { name: 'user', storage: createAsyncStorage(memory) });
+
+		store.setState('age', 50);
+		await handle.hydrated;
+		await handle.flush();
+
+		expect(store.getState('name')).toBe('Jane Doe');
+		expect(store.getState('age')).toBe(50);
+		expect(memory.getItem('user:age')).toBe('50');
+	});
+
+	test('writes only the keys that changed', () => {
+		const storage = createMemoryStorage();
+		const setItem = vi.spyOn(storage, 'setItem');
+		const store = new Store({ name: 'John Doe', age: 30 });
+		persist(store, { name: 'user', storage });
+
+		store.setState('age', 31);
+		expect(setItem.mock.calls).toEqual([
+			['user:age', '31'],
+			['user', manifest(0, ['age'])],
+		]);
+
+		setItem.mockClear();
+		store.setState('age', 32);
+		// The manifest doesn't change, so only the key is written
+		expect(setItem.mock.calls).toEqual([['user:age', '32']]);
+	});
+
+	test('removes keys that are set to undefined', () => {
+		const storage = createMemoryStorage();
+		const store = new Store<{ name?: string }>({});
+		persist(store, { name: 'user', storage });
+
+		store.setState('name', 'Jane Doe');
+		expect(storage.getItem('user:name')).toBe('"Jane Doe"');
+
+		store.setState('name', undefined);
+		expect(storage.getItem('user:name')).toBeNull();
+		expect(storage.getItem('user')).toBe(manifest(0, []));
+	});
+
+	test('respects keys and exclude', () => {
+		const storage = createMemoryStorage();
+		const store = new Store({ a: 0, b: 0, c: 0 });
+		persist(store, { name: 'included', storage, keys: ['a', 'b'], exclude: ['b'] });
+
+		store.setMany({ a: 1, b: 1, c: 1 });
+
+		expect(storage.getItem('included:a')).toBe('1');
+		expect(storage.getItem('included:b')).toBeNull();
+		expect(storage.getItem('included:c')).toBeNull();
+	});
+
+	test('does not persist derived keys', () => {
+		const storage = createMemoryStorage();
+		const store = new Store({ count: 1 }).derive('double', (get) => get('count') * 2);
+		persist(store, { name: 'counter', storage });
+
+		store.setState('count', 2);
+
+		expect(storage.getItem('counter:count')).toBe('2');
+		expect(storage.getItem('counter:double')).toBeNull();
+	});
+
+	test('uses custom serialization', () => {
+		const storage = createMemoryStorage({
+			dates: manifest(0, ['updated']),
+			'dates:updated': '1000',
+		});
+		const store = new Store({ updated: new Date(0) });
+		persist(store, {
+			name: 'dates',
+			storage,
+			serialize: (value) => String((value as Date).getTime()),
+			deserialize: (value) => new Date(Number(value)),
+		});
+
+		expect(store.getState('updated').getTime()).toBe(1000);
+
+		store.setState('updated', new Date(2000));
+		expect(storage.getItem('dates:updated')).toBe('2000');
+	});
+
+	test('migrates data from an older version', () => {
+		const storage = createMemoryStorage({
+			user: manifest(1, ['fullName']),
+			'user:fullName': JSON.stringify('Jane Doe'),
+		});
+		const store = new Store({ firstName: '', lastName: '' });
+		const migrate = vi.fn((persisted: Record<string, unknown>) => {
+			const [firstName = '', lastName = ''] = String(persisted.fullName).split(' ');
+			return { firstName, lastName };
+		});
+		persist(store, { name: 'user', storage, version: 2, migrate });
+
+		expect(migrate).toHaveBeenCalledWith({ fullName: 'Jane Doe' }, 1);
+		expect(store.getState('firstName')).toBe('Jane');
+		expect(store.getState('lastName')).toBe('Doe');
+		expect(storage.getItem('user:fullName')).toBeNull();
+		expect(storage.getItem('user:firstName')).toBe('"Jane"');
+		expect(storage.getItem('user')).toBe(manifest(2, ['firstName', 'lastName']));
+	});
+
+	test('discards data from another version without a migration', () => {
+		const storage = createMemoryStorage({
+			user: manifest(1, ['name']),
+			'user:name': JSON.stringify('Jane Doe'),
+		});
+		const store = new Store({ name: 'John Doe' });
+		persist(store, { name: 'user', storage, version: 2 });
+
+		expect(store.getState('name')).toBe('John Doe');
+		expect(storage.size).toBe(0);
+	});
+
+	test('throttles writes', async () => {
+		vi.useFakeTimers();
+		try {
+			const storage = createMemoryStorage();
+			const setItem = vi.spyOn(storage, 'setItem');
+			const store = new Store({ count: 0 });
+			persist(store, { name: 'counter', storage, throttleMs: 100 });
+
+			store.setState('count', 1);
+			store.setState('count', 2);
+			store.setState('count', 3);
+			expect(setItem).not.toHaveBeenCalled();
+
+			await vi.advanceTimersByTimeAsync(100);
+
+			expect(setItem).toHaveBeenCalledWith('counter:count', '3');
+			expect(setItem).toHaveBeenCalledTimes(2);
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	test('reports storage errors to onError', async () => {
+		const onError = vi.fn();
+		const storage: PersistStorage = {
+			getItem: () => {
+				throw new Error('read failed');
+			},
+			setItem: () => {
+				throw new Error('write failed');
+			},
+			removeItem: () => {},
+		};
+		const store = new Store({ count: 0 });
+		const handle = persist(store, { name: 'counter', storage, onError });
+
+		expect(handle.isHydrated).toBe(true);
+		store.setState('count', 1);
+		await handle.flush();
+
+		expect(onError.mock.calls.map(([error]) => (error as Error).message)).toEqual(['read failed', 'write failed']);
+	});
+
+	test('stop and clear', () => {
+		const storage = createMemoryStorage();
+		const store = new Store({ count: 0 });
+		const handle = persist(store, { name: 'counter', storage });
+
+		store.setState('count', 1);
+		expect(storage.size).toBe(2);
+
+		handle.clear();
+		expect(storage.size).toBe(0);
+
+		handle.stop();
+		store.setState('count', 2);
+		expect(storage.size).toBe(0);
+	});
+});
+
+describe('useStoreHydrated', () => {
+	test('re-renders when hydration finishes', async () => {
+		const storage = createAsyncStorage(createMemoryStorage({ app: manifest(0, []) }));
+		const store = new Store({ theme: 'light' });
+		const handle = persist(store, { name: 'app', storage });
+		const seen: boolean[] = [];
+
+		function App() {
+			seen.push(useStoreHydrated(store));
+			return null;
+		}
+
+		const container = document.createElement('div');
+		document.body.appendChild(container);
+		const root = createRoot(container);
+
+		await act(async () => {
+			root.render(<App />);
+		});
+		await act(async () => {
+			await handle.hydrated;
+		});
+
+		expect(seen[0]).toBe(false);
+		expect(seen.at(-1)).toBe(true);
+
+		await act(async () => {
+			root.unmount();
+		});
+		container.remove();
+	});
+});
@@ -0,0 +1,149 @@
+// @vitest-environment jsdom
+import { describe, expect, test, vi } from 'vitest';
+import { Expect, Equal } from 'type-testing';
+import React, { act } from 'react';
+import { createRoot } from 'react-dom/client';
+import { RecordStore, useRecordKeys, useStoreValue } from 'react-granular-store';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+interface Todo {
+	title: string;
+	done: boolean;
+}
+
+const createTodos = () =>
+	new RecordStore<Todo>({
+		a: { title: 'Write tests', done: false },
+		b: { title: 'Ship it', done: false },
+	});
+
+describe('RecordStore collection API', () => {
+	test('lists keys, values and entries', () => {
+		const todos = createTodos();
+
+		expect(todos.keys()).toEqual(['a', 'b']);
+		expect(todos.values().map((todo) => todo.title)).toEqual(['Write tests', 'Ship it']);
+		expect(todos.entries()[1]).toEqual(['b', { title: 'Ship it', done: false }]);
+		expect(todos.size).toBe(2);
+		expect(todos.has('a')).toBe(true);
+		expect(todos.has('c')).toBe(false);
+
+		const values = todos.values();
+		type TEST_RECORDSTORE_VALUES = Expect<Equal<typeof values, Todo[]>>;
+	});
+
+	test('delete removes the key and notifies its listeners', () => {
+		const todos = createTodos();
+		const callback = vi.fn();
+		todos.on('a', callback);
+
+		expect(todos.delete('a')).toBe(true);
+		expect(todos.delete('a')).toBe(false);
+
+		expect(callback).toHaveBeenCalledWith(undefined);
+		expect(todos.keys()).toEqual(['b']);
+		expect('a' in todos.state).toBe(false);
+	});
+
+	test('setting an item to undefined removes it', () => {
+		const todos = createTodos();
+		todos.setState('b', undefined);
+
+		expect(todos.keys()).toEqual(['a']);
+		expect('b' in todos.state).toBe(false);
+	});
+
+	test('upsertMany and clear each commit once', () => {
+		const todos = createTodos();
+		const commits = vi.fn();
+		todos.subscribeCommits(commits);
+
+		todos.upsertMany({ b: { title: 'Ship it', done: true }, c: { title: 'Celebrate', done: false } });
+		expect(todos.keys()).toEqual(['a', 'b', 'c']);
+		expect(todos.getState('b')?.done).toBe(true);
+
+		todos.clear();
+		expect(todos.size).toBe(0);
+		expect(commits).toHaveBeenCalledTimes(2);
+	});
+
+	test('includes pending writes in batch mode', async () => {
+		const todos = new RecordStore<Todo>({}, { batchUpdates: true });
+		todos.setState('a', { title: 'Pending', done: false });
+
+		expect(todos.keys()).toEqual(['a']);
+		expect(todos.getKeysSnapshot()).toEqual([]);
+
+		await new Promise((r) => setTimeout(r, 0));
+		expect(todos.getKeysSnapshot()).toEqual(['a']);
+	});
+
+	test('subscribeMembership only reports ids being added or removed', () => {
+		const todos = createTodos();
+		const callback = vi.fn();
+		const unsubscribe = todos.subscribeMembership(callback);
+
+		todos.setState('a', { title: 'Write more tests', done: false });
+		expect(callback).not.toHaveBeenCalled();
+
+		todos.setMany({ a: undefined, c: { title: 'Celebrate', done: false } });
+		expect(callback).toHaveBeenCalledWith(['c'], ['a']);
+
+		unsubscribe();
+		todos.delete('b');
+		expect(callback).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe('useRecordKeys', () => {
+	test('re-renders when ids are added or removed, not when an item changes', async () => {
+		const todos = createTodos();
+		const renders: string[][] = [];
+
+		function TodoList() {
+			const ids = useRecordKeys(todos);
+			renders.push(ids);
+			return (
+				<ul>
+					{ids.map((id) => (
+						<TodoItem key={id} id={id} />
+					))}
+				</ul>
+			);
+		}
+
+		function TodoItem({ id }: { id: string }) {
+			const todo = useStoreValue(todos, id);
+			return <li>{todo?.title}</li>;
+		}
+
+		const container = document.createElement('div');
+		document.body.appendChild(container);
+		const root = createRoot(container);
+
+		await act(async () => {
+			root.render(<TodoList />);
+		});
+		expect(container.textContent).toBe('Write testsShip it');
+
+		await act(async () => {
+			todos.setState('a', { title: 'Write more tests', done: true });
+		});
+		expect(container.textContent).toBe('Write more testsShip it');
+		expect(renders).toHaveLength(1);
+
+		await act(async () => {
+			todos.delete('a');
+			todos.setState('c', { title: 'Celebrate', done: false });
+		});
+		expect(container.textContent).toBe('Ship itCelebrate');
+		expect(renders.at(-1)).toEqual(['b', 'c']);
+
+		await act(async () => {
+			root.unmount();
+		});
+		container.remove();
+	});
+});
@@ -0,0 +1,149 @@
+// @vitest-environment jsdom
+import { describe, expect, test, vi } from 'vitest';
+import React, { act } from 'react';
+import { createRoot } from 'react-dom/client';
+import { RecordStore, useRecordQuery } from 'react-granular-store';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+interface Todo {
+	title: string;
+	done: boolean;
+	due: number;
+}
+
+const createTodos = () =>
+	new RecordStore<Todo>(
+		{
+			a: { title: 'Write tests', done: false, due: 3 },
+			b: { title: 'Ship it', done: true, due: 1 },
+			c: { title: 'Review', done: false, due: 2 },
+		},
+		{ indexes: { status: (todo) => (todo.done ? 'done' : 'open') } },
+	);
+
+describe('RecordStore indexes', () => {
+	test('are built from the initial items and kept up to date', () => {
+		const todos = createTodos();
+		const status = todos.getIndex('status')!;
+		expect(Array.from(status.get('open'))).toEqual(['a', 'c']);
+
+		todos.setState('a', { title: 'Write tests', done: true, due: 3 });
+		todos.delete('c');
+		expect(Array.from(status.get('open'))).toEqual([]);
+		expect(Array.from(status.get('done'))).toEqual(['b', 'a']);
+
+		const byDue = todos.addIndex('due', (todo) => todo.due);
+		expect(Array.from(byDue.get(1))).toEqual(['b']);
+	});
+});
+
+describe('RecordStore#query', () => {
+	test('filters, sorts and limits', () => {
+		const todos = createTodos();
+
+		expect(todos.query({ where: { done: false }, sortBy: 'due' }).getSnapshot()).toEqual(['c', 'a']);
+		expect(todos.query({ where: { status: 'done' } }).getSnapshot()).toEqual(['b']);
+		expect(todos.query({ where: (todo) => todo.title.startsWith('S') }).getSnapshot()).toEqual(['b']);
+		expect(todos.query({ sortBy: (x, y) => y.due - x.due, limit: 2 }).getSnapshot()).toEqual(['a', 'c']);
+		const titles = todos
+			.query()
+			.getItems()
+			.map((todo) => todo.title);
+		expect(titles).toEqual(['Write tests', 'Ship it', 'Review']);
+	});
+
+	test('only looks at the index bucket when where uses an index', () => {
+		const todos = createTodos();
+		const getValue = vi.fn((todo: Todo) => todo.due);
+		todos.addIndex('due', getValue);
+		const where = vi.fn(() => true);
+
+		todos.query({ where: { due: 2 } }).getSnapshot();
+		todos.query({ where }).getSnapshot();
+
+		// Three calls to build the index, then only the item in the bucket is checked
+		expect(getValue).toHaveBeenCalledTimes(4);
+		expect(where).toHaveBeenCalledTimes(3);
+	});
+
+	test('updates incrementally while subscribed', () => {
+		const todos = createTodos();
+		const query = todos.query({ where: { status: 'open' }, sortBy: 'due' });
+		const callback = vi.fn();
+		query.subscribe(callback);
+		const initial = query.getSnapshot();
+
+		// Changing an item without moving it keeps the same result
+		todos.setState('a', { title: 'Write more tests', done: false, due: 3 });
+		expect(query.getSnapshot()).toBe(initial);
+		expect(callback).not.toHaveBeenCalled();
+
+		// Moving an item changes the order
+		todos.setState('a', { title: 'Write more tests', done: false, due: 0 });
+		expect(query.getSnapshot()).toEqual(['a', 'c']);
+
+		// Several changes in one commit
+		todos.setMany({
+			b: { title: 'Ship it', done: false, due: 1 },
+			a: { title: 'Write more tests', done: true, due: 0 },
+			d: { title: 'Plan', done: false, due: 5 },
+		});
+		expect(query.getSnapshot()).toEqual(['b', 'c', 'd']);
+		expect(callback).toHaveBeenCalledTimes(2);
+	});
+
+	test('only notifies when the limited result changes', () => {
+		const todos = createTodos();
+		const query = todos.query({ sortBy: 'due', limit: 1 });
+		const callback = vi.fn();
+		query.subscribe(callback);
+
+		todos.setState('d', { title: 'Later', done: false, due: 10 });
+		expect(callback).not.toHaveBeenCalled();
+
+		todos.setState('d', { title: 'Now', done: false, due: 0 });
+		expect(query.getSnapshot()).toEqual(['d']);
+		expect(callback).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe('useRecordQuery', () => {
+	test('re-renders only when the result set or order changes', async () => {
+		const todos = createTodos();
+		const renders: string[][] = [];
+
+		function OpenTodos() {
+			const ids = useRecordQuery(todos, { where: { done: false }, sortBy: 'due' });
+			renders.push(ids);
+			return <>{ids.join(',')}</>;
+		}
+
+		const container = document.createElement('div');
+		document.body.appendChild(container);
+		const root = createRoot(container);
+
+		await act(async () => {
+			root.render(<OpenTodos />);
+		});
+		expect(container.textContent).toBe('c,a');
+
+		await act(async () => {
+			todos.setState('a', { title: 'Renamed', done: false, due: 3 });
+			todos.setState('b', { title: 'Shipped again', done: true, due: 0 });
+		});
+		expect(renders).toHaveLength(1);
+
+		await act(async () => {
+			todos.setState('b', { title: 'Reopened', done: false, due: 0 });
+		});
+		expect(container.textContent).toBe('b,c,a');
+		expect(renders).toHaveLength(2);
+
+		await act(async () => {
+			root.unmount();
+		});
+		container.remove();
+	});
+});
@@ -0,0 +1,184 @@
+// @vitest-environment jsdom
+import { describe, expect, test, vi } from 'vitest';
+import { Expect, Equal } from 'type-testing';
+import React, { act, Suspense } from 'react';
+import { createRoot } from 'react-dom/client';
+import Store, { StoreResource, useStoreResource } from 'react-granular-store';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+// A promise that's settled from the outside, so tests control when requests finish
+const deferred = <T,>() => {
+	let resolve!: (value: T) => void;
+	let reject!: (error: unknown) => void;
+	const promise = new Promise<T>((res, rej) => {
+		resolve = res;
+		reject = rej;
+	});
+	return { promise, resolve, reject };
+};
+
+const createStore = () => new Store({ user: null as { name: string } | null, count: 0 });
+
+describe('Store#load', () => {
+	test('tracks the status of a request and writes the data to the key', async () => {
+		const store = createStore();
+		const request = deferred<{ name: string }>();
+		expect(store.getResource('user')).toEqual({ status: 'idle', data: null, error: undefined });
+
+		const loaded = store.load('user', () => request.promise);
+		await Promise.resolve();
+		expect(store.getResource('user').status).toBe('loading');
+
+		request.resolve({ name: 'Ada' });
+		const resource = await loaded;
+		type TEST_LOAD = Expect<Equal<typeof resource, StoreResource<{ name: string } | null>>>;
+
+		expect(resource).toEqual({ status: 'success', data: { name: 'Ada' }, error: undefined });
+		expect(store.getState('user')).toEqual({ name: 'Ada' });
+		expect(store.getResource('user')).toBe(store.getResource('user'));
+	});
+
+	test('records errors without rejecting and keeps the previous data', async () => {
+		const store = createStore();
+		await store.load('user', async () => ({ name: 'Ada' }));
+
+		const error = new Error('offline');
+		const resource = await store.load('user', () => Promise.reject(error));
+
+		expect(resource).toEqual({ status: 'error', data: { name: 'Ada' }, error });
+	});
+
+	test('records an error when the data cannot be written', async () => {
+		const store = createStore().derive('double', (get) => get('count') * 2);
+
+		const resource = await store.load('double', async () => 4);
+
+		expect(resource).toEqual({ status: 'error', data: 0, error: new Error('Cannot set derived key "double"') });
+		expect(store.getResource('double')).toBe(resource);
+	});
+
+	test('dedupes concurrent loads', async () => {
+		const store = createStore();
+		const fetcher = vi.fn(async () => ({ name: 'Ada' }));
+
+		const [first, second] = await Promise.all([store.load('user', fetcher), store.load('user', fetcher)]);
+
+		expect(fetcher).toHaveBeenCalledTimes(1);
+		expect(first).toBe(second);
+	});
+
+	test('aborts superseded requests and ignores their results', async () => {
+		const store = createStore();
+		const slow = deferred<{ name: string }>();
+		let slowSignal: AbortSignal | undefined;
+
+		const first = store.load('user', (signal) => {
+			slowSignal = signal;
+			return slow.promise;
+		});
+		await Promise.resolve();
+		const second = store.load('user', async () => ({ name: 'Grace' }), { dedupe: false });
+
+		await second;
+		expect(slowSignal?.aborted).toBe(true);
+		slow.resolve({ name: 'Ada' });
+		// The superseded load resolves with the result of the one that replaced it
+		expect((await first).data).toEqual({ name: 'Grace' });
+		expect(store.getState('user')).toEqual({ name: 'Grace' });
+	});
+
+	test('does not fetch fresh data again within staleTime', async () => {
+		vi.useFakeTimers();
+		try {
+			const store = createStore();
+			const fetcher = vi.fn(async () => ({ name: 'Ada' }));
+
+			await store.load('user', fetcher, { staleTime: 1000 });
+			await store.load('user', fetcher, { staleTime: 1000 });
+			expect(fetcher).toHaveBeenCalledTimes(1);
+
+			vi.advanceTimersByTime(1001);
+			await store.load('user', fetcher, { staleTime: 1000 });
+			expect(fetcher).toHaveBeenCalledTimes(2);
+
+			store.invalidate('user');
+			await store.load('user', fetcher, { staleTime: 1000 });
+			expect(fetcher).toHaveBeenCalledTimes(3);
+
+			await store.refetch('user');
+			expect(fetcher).toHaveBeenCalledTimes(4);
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+});
+
+describe('useStoreResource', () => {
+	test('returns the status and refetches when invalidated', async () => {
+		const store = createStore();
+		const names = ['Ada', 'Grace'];
+		const fetcher = vi.fn(async () => ({ name: names.shift()! }));
+
+		function User() {
+			const { status, data } = useStoreResource(store, 'user', { fetcher });
+			return <>{status === 'success' ? data?.name : status}</>;
+		}
+
+		const container = document.createElement('div');
+		document.body.appendChild(container);
+		const root = createRoot(container);
+
+		await act(async () => {
+			root.render(<User />);
+		});
+		expect(container.textContent).toBe('Ada');
+
+		await act(async () => {
+			store.invalidate('user');
+		});
+		expect(container.textContent).toBe('Grace');
+		expect(fetcher).toHaveBeenCalledTimes(2);
+
+		await act(async () => {
+			root.unmount();
+		});
+		container.remove();
+	});
+
+	test('suspends until the first load finishes', async () => {
+		const store = createStore();
+		const request = deferred<{ name: string }>();
+		const fetcher = vi.fn(() => request.promise);
+
+		function User() {
+			const { data } = useStoreResource(store, 'user', { fetcher, suspense: true });
+			return <>{data?.name}</>;
+		}
+
+		const container = document.createElement('div');
+		document.body.appendChild(container);
+		const root = createRoot(container);
+
+		await act(async () => {
+			root.render(
+				<Suspense fallback="Loading">
+					<User />
+				</Suspense>,
+			);
+		});
+		expect(container.textContent).toBe('Loading');
+
+		await act(async () => {
+			request.resolve({ name: 'Ada' });
+		});
+		expect(container.textContent).toBe('Ada');
+		expect(fetcher).toHaveBeenCalledTimes(1);
+
+		await act(async () => {
+			root.unmount();
+		});
+		container.remove();
+	});
+});
@@ -0,0 +1,87 @@
+import { describe, expect, test, vi } from 'vitest';
+import Store from 'react-granular-store';
+
+describe('scheduler', () => {
+	test('microtask resolves the batch before the next task', async () => {
+		const store = new Store({ count: 0 }, { batchUpdates: true, scheduler: 'microtask' });
+		const callback = vi.fn();
+		store.on('count', callback);
+
+		store.setState('count', 1);
+		store.setState('count', 2);
+		expect(callback).not.toHaveBeenCalled();
+
+		await Promise.resolve();
+		expect(callback).toHaveBeenCalledTimes(1);
+		expect(callback).toHaveBeenCalledWith(2);
+	});
+
+	test('animationFrame resolves the batch in an animation frame', () => {
+		const frames: FrameRequestCallback[] = [];
+		vi.stubGlobal('requestAnimationFrame', (frame: FrameRequestCallback) => frames.push(frame));
+		try {
+			const store = new Store({ count: 0 }, { batchUpdates: true, scheduler: 'animationFrame' });
+			store.setState('count', 1);
+			expect(store.state.count).toBe(0);
+			expect(frames).toHaveLength(1);
+
+			frames[0]!(0);
+			expect(store.state.count).toBe(1);
+		} finally {
+			vi.unstubAllGlobals();
+		}
+	});
+
+	test('a custom scheduler decides when the batch is resolved', () => {
+		const pending: (() => void)[] = [];
+		const store = new Store({ a: 0, b: 0 }, { batchUpdates: true, scheduler: (resolve) => pending.push(resolve) });
+		const callback = vi.fn();
+		store.subscribeCommits(callback);
+
+		store.setState('a', 1);
+		store.setState('b', 1);
+		expect(pending).toHaveLength(1);
+		expect(store.state).toEqual({ a: 0, b: 0 });
+
+		pending[0]!();
+		expect(store.state).toEqual({ a: 1, b: 1 });
+		expect(callback).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe('Store#flush', () => {
+	test('resolves the batch synchronously', () => {
+		vi.useFakeTimers();
+		try {
+			const store = new Store({ count: 0 }, { batchUpdates: true });
+			const callback = vi.fn();
+			store.on('count', callback);
+			expect(store.hasPendingUpdates).toBe(false);
+
+			store.setState('count', 1);
+			expect(store.hasPendingUpdates).toBe(true);
+
+			store.flush();
+			expect(store.hasPendingUpdates).toBe(false);
+			expect(store.state.count).toBe(1);
+			expect(callback).toHaveBeenCalledTimes(1);
+
+			// The scheduled resolution has nothing left to do
+			vi.runAllTimers();
+			expect(callback).toHaveBeenCalledTimes(1);
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	test('also commits writes made by listeners while flushing', () => {
+		const store = new Store({ count: 0, double: 0 }, { batchUpdates: true, scheduler: () => {} });
+		store.on('count', (count) => store.setState('double', count * 2));
+
+		store.setState('count', 2);
+		store.flush();
+
+		expect(store.state).toEqual({ count: 2, double: 4 });
+		expect(store.hasPendingUpdates).toBe(false);
+	});
+});
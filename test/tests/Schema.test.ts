@@ -0,0 +1,139 @@
+import { describe, expect, test, vi } from 'vitest';
+import { Expect, Equal } from 'type-testing';
+import Store, { StandardSchemaV1, StoreValidationError } from 'react-granular-store';
+
+// Small Standard Schema validators, so the tests don't depend on a validation library
+const schema = <Output>(validate: (value: unknown) => { value: Output } | { issues: { message: string }[] }) =>
+	({ '~standard': { version: 1, vendor: 'test', validate } }) as StandardSchemaV1<unknown, Output>;
+
+const number = schema<number>((value) =>
+	typeof value === 'number' ? { value } : { issues: [{ message: 'Expected a number' }] },
+);
+const string = schema<string>((value) =>
+	typeof value === 'string' ? { value } : { issues: [{ message: 'Expected a string' }] },
+);
+// Accepts anything that can be turned into a number and outputs the number
+const numeric = schema<number>((value) => {
+	const parsed = Number(value);
+	return Number.isNaN(parsed) ? { issues: [{ message: 'Expected a numeric value' }] } : { value: parsed };
+});
+
+describe('schema', () => {
+	test('reject mode drops invalid writes and reports them', () => {
+		const onValidationError = vi.fn();
+		const store = new Store({ count: 0, name: 'Ada' }, { schema: { count: number }, onValidationError });
+		const callback = vi.fn();
+		store.on('count', callback);
+
+		store.setState('count', '5' as unknown as number);
+		store.setState('name', 'Grace');
+
+		expect(store.getState('count')).toBe(0);
+		expect(store.getState('name')).toBe('Grace');
+		expect(callback).not.toHaveBeenCalled();
+		expect(onValidationError).toHaveBeenCalledTimes(1);
+		const error = onValidationError.mock.calls[0]![0] as StoreValidationError;
+		expect(error).toBeInstanceOf(StoreValidationError);
+		expect(error.key).toBe('count');
+		expect(error.value).toBe('5');
+		expect(error.message).toBe('Invalid value for key "count": Expected a number');
+
+		store.setState('count', 5);
+		expect(store.getState('count')).toBe(5);
+	});
+
+	test('coerce mode writes the output of the schema', () => {
+		const onValidationError = vi.fn();
+		const store = new Store(
+			{ page: 1 },
+			{ schema: { page: numeric }, validationMode: 'coerce', onValidationError },
+		);
+
+		store.setState('page', '3' as unknown as number);
+		expect(store.getState('page')).toBe(3);
+
+		store.setState('page', 'last' as unknown as number);
+		expect(store.getState('page')).toBe(3);
+		expect(onValidationError).toHaveBeenCalledTimes(1);
+	});
+
+	test('warn mode writes the value and warns by default', () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		try {
+			const store = new Store({ name: 'Ada' }, { schema: { name: string }, validationMode: 'warn' });
+			store.setState('name', 42 as unknown as string);
+
+			expect(store.getState('name')).toBe(42);
+			expect(warn).toHaveBeenCalledWith(expect.any(StoreValidationError));
+		} finally {
+			warn.mockRestore();
+		}
+	});
+
+	test('validates the default values', () => {
+		const onValidationError = vi.fn();
+		expect(
+			() => new Store({ count: 'zero' as unknown as number }, { schema: { count: number }, onValidationError }),
+		).toThrow(StoreValidationError);
+		expect(onValidationError).toHaveBeenCalledTimes(1);
+
+		const defaults = { page: '2' as unknown as number };
+		const store = new Store(defaults, { schema: { page: numeric }, validationMode: 'coerce' });
+		expect(store.getState('page')).toBe(2);
+		expect(defaults.page).toBe('2');
+	});
+
+	test('validates writes after middleware, inside transactions and when hydrating', () => {
+		const onValidationError = vi.fn();
+		const store = new Store(
+			{ count: 0, name: 'Ada' },
+			{
+				schema: { count: number },
+				onValidationError,
+				// Turns strings of digits into numbers, so anything else still fails validation
+				middleware: [
+					(write, next) =>
+						next(
+							typeof write.value === 'string' && /^\d+$/.test(write.value)
+								? Number(write.value)
+								: write.value,
+						),
+				],
+			},
+		);
+
+		store.setState('count', '7' as unknown as number);
+		expect(store.getState('count')).toBe(7);
+
+		store.setMany({ count: 'x' as unknown as number, name: 'Grace' });
+		expect(store.getState('count')).toBe(7);
+		expect(store.getState('name')).toBe('Grace');
+
+		store.hydrate({ state: { count: 'y', name: 'Linus' } });
+		expect(store.getState('count')).toBe(7);
+		expect(store.getState('name')).toBe('Linus');
+		expect(onValidationError).toHaveBeenCalledTimes(2);
+	});
+
+	test('asynchronous schemas are not supported', () => {
+		const asyncNumber = {
+			'~standard': { version: 1, vendor: 'test', validate: async (value: unknown) => ({ value }) },
+		} as StandardSchemaV1<unknown, number>;
+		expect(() => new Store({ count: 0 }, { schema: { count: asyncNumber } })).toThrow('asynchronous');
+	});
+
+	test('Store.withSchema infers the state from the schema', () => {
+		const store = Store.withSchema({ count: number, name: string }, { count: 0, name: 'Ada' });
+		const count = store.getState('count');
+		type TEST_WITHSCHEMA = Expect<Equal<typeof count, number>>;
+		expect(count).toBe(0);
+
+		// Only type checked, never called
+		() => {
+			// @ts-expect-error the default value doesn't match the schema
+			Store.withSchema({ count: number }, { count: 'zero' });
+			// @ts-expect-error the schema's key has to match the state
+			new Store({ count: 0 }, { schema: { count: string } });
+		};
+	});
+});
@@ -0,0 +1,162 @@
+// @vitest-environment jsdom
+import { describe, expect, test, vi } from 'vitest';
+import React, { act } from 'react';
+import { hydrateRoot } from 'react-dom/client';
+import { renderToString } from 'react-dom/server';
+import Store, { DehydratedState, createStoreProvider, useStoreValue } from 'react-granular-store';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+// Dehydrate, send through JSON as it would be in the HTML, and parse it again
+const throughJson = <State extends Record<string, unknown>>(data: DehydratedState<State>): DehydratedState<State> =>
+	JSON.parse(JSON.stringify(data));
+
+describe('dehydrate and hydrate', () => {
+	test('round trips values that JSON does not support', () => {
+		const store = new Store({
+			updated: new Date(1000),
+			tags: new Set(['a', 'b']),
+			lookup: new Map<string, { at: Date }>([['x', { at: new Date(2000) }]]),
+			big: BigInt('9007199254740993'),
+			missing: undefined as string | undefined,
+			ratio: Infinity,
+			nested: [{ $type: 'user data' }],
+			escaped: [
+				{ $type: 'Date', value: 1 },
+				{ $type: 'Set', value: [1] },
+				{ $type: 'Object', value: { a: 1 } },
+			],
+		});
+
+		const hydrated = Store.hydrate(throughJson(store.dehydrate()));
+
+		expect(hydrated.getState('updated')).toEqual(new Date(1000));
+		expect(hydrated.getState('tags')).toEqual(new Set(['a', 'b']));
+		expect(hydrated.getState('lookup').get('x')?.at).toEqual(new Date(2000));
+		expect(hydrated.getState('big')).toBe(BigInt('9007199254740993'));
+		expect('missing' in hydrated.state).toBe(true);
+		expect(hydrated.getState('missing')).toBeUndefined();
+		expect(hydrated.getState('ratio')).toBe(Infinity);
+		expect(hydrated.getState('nested')).toEqual([{ $type: 'user data' }]);
+		expect(hydrated.getState('escaped')).toEqual([
+			{ $type: 'Date', value: 1 },
+			{ $type: 'Set', value: [1] },
+			{ $type: 'Object', value: { a: 1 } },
+		]);
+	});
+
+	test('leaves out derived keys and includes pending batched values', () => {
+		const store = new Store({ count: 1 }, { batchUpdates: true }).derive('double', (get) => get('count') * 2);
+		store.setState('count', 2);
+
+		const hydrated = Store.hydrate(throughJson(store.dehydrate()));
+
+		expect(hydrated.state).toEqual({ count: 2 });
+	});
+
+	test('uses a custom transformer', () => {
+		const transformer = {
+			serialize: vi.fn((value: unknown) => ({ wrapped: value })),
+			deserialize: vi.fn((value: unknown) => (value as { wrapped: unknown }).wrapped),
+		};
+		const store = new Store({ name: 'Jane' }, { transformer });
+
+		const data = store.dehydrate();
+		expect(data).toEqual({ state: { wrapped: { name: 'Jane' } } });
+
+		const hydrated = Store.hydrate(data, { transformer });
+		expect(hydrated.getState('name')).toBe('Jane');
+		expect(transformer.deserialize).toHaveBeenCalledWith({ wrapped: { name: 'Jane' } });
+	});
+
+	test('hydrating an existing store notifies listeners of the keys that changed', () => {
+		const server = new Store({ name: 'Jane', age: 30 });
+		const client = new Store({ name: 'John', age: 30 });
+		const name = vi.fn();
+		const age = vi.fn();
+		client.on('name', name);
+		client.on('age', age);
+
+		client.hydrate(throughJson(server.dehydrate()));
+
+		expect(client.getState('name')).toBe('Jane');
+		expect(name).toHaveBeenCalledWith('Jane');
+		expect(age).not.toHaveBeenCalled();
+	});
+});
+
+describe('createStoreProvider', () => {
+	const { Provider, useStore } = createStoreProvider(() => new Store({ name: 'Guest', visits: 0 }));
+
+	function Greeting() {
+		const store = useStore();
+		const name = useStoreValue(store, 'name');
+		return <span>Hello {name}</span>;
+	}
+
+	test('hydrates on the client without a mismatch', async () => {
+		// On the server, the data is loaded into a store made for this request and dehydrated into the page
+		const requestStore = new Store({ name: 'Guest', visits: 0 });
+		requestStore.setState('name', 'Jane');
+		const dehydratedState = throughJson(requestStore.dehydrate());
+		const html = renderToString(
+			<Provider dehydratedState={dehydratedState}>
+				<Greeting />
+			</Provider>,
+		);
+		expect(html).toBe('<span>Hello <!-- -->Jane</span>');
+
+		const container = document.createElement('div');
+		container.innerHTML = html;
+		document.body.appendChild(container);
+		const onRecoverableError = vi.fn();
+		let root: ReturnType<typeof hydrateRoot> | undefined;
+
+		await act(async () => {
+			root = hydrateRoot(
+				container,
+				<Provider dehydratedState={dehydratedState}>
+					<Greeting />
+				</Provider>,
+				{ onRecoverableError },
+			);
+		});
+
+		expect(onRecoverableError).not.toHaveBeenCalled();
+		expect(container.textContent).toBe('Hello Jane');
+
+		await act(async () => {
+			root?.unmount();
+		});
+		container.remove();
+	});
+
+	test('each provider gets its own store', () => {
+		const stores: Store<{ name: string; visits: number }>[] = [];
+		function Capture() {
+			stores.push(useStore());
+			return null;
+		}
+
+		renderToString(
+			<>
+				<Provider>
+					<Capture />
+				</Provider>
+				<Provider>
+					<Capture />
+				</Provider>
+			</>,
+		);
+
+		expect(stores).toHaveLength(2);
+		expect(stores[0]).not.toBe(stores[1]);
+	});
+
+	test('useStore throws outside of the provider', () => {
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+		expect(() => renderToString(<Greeting />)).toThrow(/inside the Provider/);
+		vi.mocked(console.error).mockRestore();
+	});
+});
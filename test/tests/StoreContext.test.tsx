@@ -0,0 +1,177 @@
+// @vitest-environment jsdom
+import { describe, expect, test, vi } from 'vitest';
+import { Expect, Equal } from 'type-testing';
+import React, { act } from 'react';
+import { createRoot } from 'react-dom/client';
+import Store, { createStoreContext } from 'react-granular-store';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+interface UserState {
+	name: string;
+	age: number;
+}
+
+const UserContext = createStoreContext<UserState>();
+
+const render = async (element: React.ReactElement) => {
+	const container = document.createElement('div');
+	document.body.appendChild(container);
+	const root = createRoot(container);
+	await act(async () => {
+		root.render(element);
+	});
+	return {
+		container,
+		cleanup: async () => {
+			await act(async () => {
+				root.unmount();
+			});
+			container.remove();
+		},
+	};
+};
+
+describe('createStoreContext', () => {
+	test('bound hooks read and update the provided store without nullable types', async () => {
+		let setAge: ((newValue: number | ((prev: number) => number)) => void) | undefined;
+
+		function Profile() {
+			const name = UserContext.useValue('name');
+			const [age, updateAge] = UserContext.useState('age');
+			setAge = UserContext.useUpdate('age');
+			type TEST_USEVALUE = Expect<Equal<typeof name, string>>;
+			type TEST_USESTATE = Expect<Equal<typeof age, number>>;
+			type TEST_USESTATE_UPDATE = Expect<
+				Equal<typeof updateAge, (newValue: number | ((prev: number) => number)) => void>
+			>;
+			return (
+				<span>
+					{name} {age}
+				</span>
+			);
+		}
+
+		const { container, cleanup } = await render(
+			<UserContext.Provider initialValues={{ name: 'Jane', age: 30 }}>
+				<Profile />
+			</UserContext.Provider>,
+		);
+		expect(container.textContent).toBe('Jane 30');
+
+		await act(async () => {
+			setAge?.((prev) => prev + 1);
+		});
+		expect(container.textContent).toBe('Jane 31');
+
+		await cleanup();
+	});
+
+	test('accepts an existing store', async () => {
+		const store = new Store<UserState>({ name: 'John', age: 40 });
+		let provided: Store<UserState> | undefined;
+
+		function Name() {
+			provided = UserContext.useStore();
+			return <>{UserContext.useValue('name')}</>;
+		}
+
+		const { container, cleanup } = await render(
+			<UserContext.Provider store={store}>
+				<Name />
+			</UserContext.Provider>,
+		);
+		expect(provided).toBe(store);
+
+		await act(async () => {
+			store.setState('name', 'Johnny');
+		});
+		expect(container.textContent).toBe('Johnny');
+
+		await cleanup();
+	});
+
+	test('keeps the store it created across renders', async () => {
+		const stores = new Set<Store<UserState>>();
+		let rerender: (() => void) | undefined;
+
+		function Capture() {
+			stores.add(UserContext.useStore());
+			return null;
+		}
+
+		function App() {
+			const [, setCount] = React.useState(0);
+			rerender = () => setCount((count) => count + 1);
+			return (
+				<UserContext.Provider initialValues={{ name: 'Jane', age: 30 }}>
+					<Capture />
+				</UserContext.Provider>
+			);
+		}
+
+		const { cleanup } = await render(<App />);
+		await act(async () => {
+			rerender?.();
+		});
+
+		expect(stores.size).toBe(1);
+		await cleanup();
+	});
+
+	test('a nested provider overrides the outer one', async () => {
+		function Name() {
+			return <span>{UserContext.useValue('name')}</span>;
+		}
+
+		const { container, cleanup } = await render(
+			<UserContext.Provider initialValues={{ name: 'Outer', age: 1 }}>
+				<Name />
+				<UserContext.Provider initialValues={{ name: 'Inner', age: 2 }}>
+					<Name />
+				</UserContext.Provider>
+			</UserContext.Provider>,
+		);
+		expect(container.textContent).toBe('OuterInner');
+
+		await cleanup();
+	});
+
+	test('creates and hydrates a store with createStore', async () => {
+		const createStore = vi.fn(() => new Store<UserState>({ name: 'Guest', age: 0 }));
+		const GuestContext = createStoreContext(createStore);
+		const dehydratedState = new Store<UserState>({ name: 'Jane', age: 30 }).dehydrate();
+
+		function Name() {
+			return <span>{GuestContext.useValue('name')}</span>;
+		}
+
+		const { container, cleanup } = await render(
+			<>
+				<GuestContext.Provider>
+					<Name />
+				</GuestContext.Provider>
+				<GuestContext.Provider dehydratedState={dehydratedState}>
+					<Name />
+				</GuestContext.Provider>
+			</>,
+		);
+		expect(container.textContent).toBe('GuestJane');
+		expect(createStore).toHaveBeenCalledTimes(2);
+
+		await cleanup();
+	});
+
+	test('throws a clear error outside the provider', async () => {
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+		function Name() {
+			return <>{UserContext.useValue('name')}</>;
+		}
+
+		await expect(render(<Name />)).rejects.toThrow(
+			'useValue must be used inside the Provider returned by the same createStoreContext call',
+		);
+		vi.mocked(console.error).mockRestore();
+	});
+});
@@ -0,0 +1,191 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { Expect, Equal } from 'type-testing';
+import React, { act } from 'react';
+import { createRoot } from 'react-dom/client';
+import Store, { useStoreEffect } from 'react-granular-store';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+afterEach(() => {
+	vi.useRealTimers();
+});
+
+describe('Store#effect', () => {
+	test('runs once per commit with the values and their previous values', () => {
+		const store = new Store({ first: 'Ada', last: 'Lovelace', age: 36 });
+		const effect = vi.fn();
+		store.effect(['first', 'last'], (values, prev) => {
+			type TEST_VALUES = Expect<Equal<typeof values, readonly [string, string]>>;
+			effect(values, prev);
+		});
+
+		store.setMany({ first: 'Grace', last: 'Hopper' });
+		expect(effect).toHaveBeenCalledTimes(1);
+		expect(effect).toHaveBeenCalledWith(['Grace', 'Hopper'], ['Ada', 'Lovelace']);
+
+		store.setState('age', 37);
+		store.setState('last', 'Hopper');
+		expect(effect).toHaveBeenCalledTimes(1);
+
+		store.setState('first', 'Augusta');
+		expect(effect).toHaveBeenLastCalledWith(['Augusta', 'Hopper'], ['Grace', 'Hopper']);
+	});
+
+	test('runs once per batch, including the derived keys it set off', () => {
+		const store = new Store({ first: 'Ada', last: 'Lovelace' }, { batchUpdates: true });
+		const named = store.derive('full', (get) => `${get('first')} ${get('last')}`);
+		const effect = vi.fn();
+		named.effect(['first', 'full'], effect);
+
+		named.setState('first', 'Augusta');
+		named.setState('last', 'King');
+		named.flush();
+
+		expect(effect).toHaveBeenCalledTimes(1);
+		expect(effect).toHaveBeenCalledWith(['Augusta', 'Augusta King'], ['Ada', 'Ada Lovelace']);
+	});
+
+	test('cleans up before running again and when disposed', () => {
+		const store = new Store({ count: 0 });
+		const cleanup = vi.fn();
+		const dispose = store.effect(['count'], ([count]) => {
+			return () => cleanup(count);
+		});
+
+		store.setState('count', 1);
+		expect(cleanup).not.toHaveBeenCalled();
+		store.setState('count', 2);
+		expect(cleanup).toHaveBeenCalledWith(1);
+
+		dispose();
+		expect(cleanup).toHaveBeenLastCalledWith(2);
+		store.setState('count', 3);
+		expect(cleanup).toHaveBeenCalledTimes(2);
+
+		const effect = vi.fn(() => cleanup);
+		store.effect(['count'], effect);
+		store.setState('count', 4);
+		store.dispose();
+		expect(cleanup).toHaveBeenCalledTimes(3);
+	});
+
+	test('fireImmediately runs it straight away', () => {
+		const store = new Store({ count: 1 });
+		const effect = vi.fn();
+		store.effect(['count'], effect, { fireImmediately: true });
+		expect(effect).toHaveBeenCalledWith([1], [1]);
+	});
+
+	test('debounceMs waits until the keys stop changing', () => {
+		vi.useFakeTimers();
+		const store = new Store({ query: '' });
+		const effect = vi.fn();
+		store.effect(['query'], effect, { debounceMs: 100 });
+
+		store.setState('query', 'a');
+		vi.advanceTimersByTime(50);
+		store.setState('query', 'ab');
+		vi.advanceTimersByTime(50);
+		expect(effect).not.toHaveBeenCalled();
+
+		vi.advanceTimersByTime(50);
+		expect(effect).toHaveBeenCalledTimes(1);
+		expect(effect).toHaveBeenCalledWith(['ab'], ['']);
+
+		// Nothing runs if the value changes back before the wait is over
+		store.setState('query', 'abc');
+		store.setState('query', 'ab');
+		vi.advanceTimersByTime(100);
+		expect(effect).toHaveBeenCalledTimes(1);
+	});
+
+	test('throttleMs runs the first change straight away and the last one at the end of the window', () => {
+		vi.useFakeTimers();
+		const store = new Store({ position: 0 });
+		const effect = vi.fn();
+		store.effect(['position'], effect, { throttleMs: 100 });
+
+		store.setState('position', 1);
+		expect(effect).toHaveBeenCalledWith([1], [0]);
+
+		store.setState('position', 2);
+		store.setState('position', 3);
+		expect(effect).toHaveBeenCalledTimes(1);
+
+		vi.advanceTimersByTime(100);
+		expect(effect).toHaveBeenCalledTimes(2);
+		expect(effect).toHaveBeenLastCalledWith([3], [1]);
+	});
+
+	test('passes errors to onError and keeps running', () => {
+		const onError = vi.fn();
+		const store = new Store({ count: 0 }, { onError });
+		const effect = vi.fn(([count]: readonly [number]) => {
+			if (count === 1) throw new Error('Effect failed');
+		});
+		store.effect(['count'], effect);
+
+		store.setState('count', 1);
+		store.setState('count', 2);
+
+		expect(onError).toHaveBeenCalledWith(new Error('Effect failed'), { key: undefined, listener: effect });
+		expect(effect).toHaveBeenCalledTimes(2);
+	});
+
+	test('a write to its own keys runs it again afterwards', () => {
+		const store = new Store({ count: 0 });
+		const calls: number[] = [];
+		store.effect(['count'], ([count]) => {
+			calls.push(count);
+			if (count % 2 === 1) store.setState('count', count + 1);
+			calls.push(-count);
+		});
+
+		store.setState('count', 1);
+
+		expect(calls).toEqual([1, -1, 2, -2]);
+	});
+});
+
+describe('useStoreEffect', () => {
+	test('runs the latest effect while the component is mounted', async () => {
+		const store = new Store({ count: 0 });
+		const cleanup = vi.fn();
+		const effect = vi.fn();
+
+		function Logger({ label }: { label: string }) {
+			useStoreEffect(store, ['count'], ([count]) => {
+				effect(label, count);
+				return cleanup;
+			});
+			return null;
+		}
+
+		const container = document.createElement('div');
+		document.body.appendChild(container);
+		const root = createRoot(container);
+
+		await act(async () => {
+			root.render(<Logger label="first" />);
+		});
+		await act(async () => {
+			root.render(<Logger label="second" />);
+		});
+		await act(async () => {
+			store.setState('count', 1);
+		});
+		expect(effect).toHaveBeenCalledTimes(1);
+		expect(effect).toHaveBeenCalledWith('second', 1);
+
+		await act(async () => {
+			root.unmount();
+		});
+		expect(cleanup).toHaveBeenCalledTimes(1);
+		store.setState('count', 2);
+		expect(effect).toHaveBeenCalledTimes(1);
+		expect(store.callbacks.count?.size).toBe(0);
+		container.remove();
+	});
+});
@@ -0,0 +1,164 @@
+// @vitest-environment jsdom
+import { describe, expect, test } from 'vitest';
+import { Expect, Equal } from 'type-testing';
+import React, { act } from 'react';
+import { createRoot } from 'react-dom/client';
+import Store, { shallowEqual, useStoreSelector } from 'react-granular-store';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+interface User {
+	name: string;
+	age: number;
+	tags: string[];
+}
+
+const createUserStore = () =>
+	new Store({
+		user: { name: 'John Doe', age: 30, tags: ['admin'] } as User,
+	});
+
+const typedStore = createUserStore();
+
+const getStore = () => (Math.random() > 0.5 ? typedStore : null);
+
+// Type testing
+const TypedApp = () => {
+	const name = useStoreSelector(typedStore, 'user', (user) => {
+		type TEST_SELECTOR_ARGUMENT = Expect<Equal<typeof user, User>>;
+		return user.name;
+	});
+	type TEST_SELECTOR_RESULT = Expect<Equal<typeof name, string>>;
+
+	const nullableName = useStoreSelector(getStore(), 'user', (user) => user.name);
+	type TEST_SELECTOR_NULL_RESULT = Expect<Equal<typeof nullableName, string | null>>;
+
+	// @ts-expect-error - should error because 'notInStore' is not in the store
+	useStoreSelector(typedStore, 'notInStore', (value) => value);
+
+	return null;
+};
+
+const mount = async (element: React.ReactElement) => {
+	const container = document.createElement('div');
+	document.body.appendChild(container);
+	const root = createRoot(container);
+	await act(async () => {
+		root.render(element);
+	});
+	return async () => {
+		await act(async () => {
+			root.unmount();
+		});
+		container.remove();
+	};
+};
+
+describe('shallowEqual', () => {
+	test('compares objects and arrays one level deep', () => {
+		expect(shallowEqual({ a: 1, b: 'x' }, { a: 1, b: 'x' })).toBe(true);
+		expect(shallowEqual({ a: 1 }, { a: 2 })).toBe(false);
+		expect(shallowEqual({ a: 1 }, { a: 1, b: 2 })).toBe(false);
+		expect(shallowEqual([1, 2], [1, 2])).toBe(true);
+		expect(shallowEqual([1, 2], { 0: 1, 1: 2 })).toBe(false);
+		expect(shallowEqual({ a: {} }, { a: {} })).toBe(false);
+		expect(shallowEqual(NaN, NaN)).toBe(true);
+		expect(shallowEqual<unknown>(null, {})).toBe(false);
+	});
+});
+
+describe('useStoreSelector', () => {
+	test('only re-renders when the selected value changes', async () => {
+		const store = createUserStore();
+		const renders: string[] = [];
+
+		function Name() {
+			// Inline selector on purpose
+			renders.push(useStoreSelector(store, 'user', (user) => user.name));
+			return null;
+		}
+
+		const unmount = await mount(<Name />);
+		expect(renders).toEqual(['John Doe']);
+
+		await act(async () => {
+			store.setState('user', (prev) => ({ ...prev, age: 31 }));
+		});
+		expect(renders).toEqual(['John Doe']);
+
+		await act(async () => {
+			store.setState('user', (prev) => ({ ...prev, name: 'Jane Doe' }));
+		});
+		expect(renders).toEqual(['John Doe', 'Jane Doe']);
+
+		await unmount();
+	});
+
+	test('uses the supplied equality function for derived objects', async () => {
+		const store = createUserStore();
+		const renders: Array<{ name: string; age: number }> = [];
+
+		function Summary() {
+			renders.push(useStoreSelector(store, 'user', (user) => ({ name: user.name, age: user.age }), shallowEqual));
+			return null;
+		}
+
+		const unmount = await mount(<Summary />);
+
+		await act(async () => {
+			store.setState('user', (prev) => ({ ...prev, tags: [] }));
+		});
+		expect(renders).toHaveLength(1);
+
+		await act(async () => {
+			store.setState('user', (prev) => ({ ...prev, age: 31 }));
+		});
+		expect(renders).toHaveLength(2);
+		expect(renders[1]).toEqual({ name: 'John Doe', age: 31 });
+
+		await unmount();
+	});
+
+	test('keeps the previous reference when a re-render produces an equal selection', async () => {
+		const store = createUserStore();
+		const renders: string[][] = [];
+		let setTick: (tick: number) => void = () => {};
+
+		function Tags() {
+			setTick = React.useState(0)[1];
+			renders.push(useStoreSelector(store, 'user', (user) => [...user.tags], shallowEqual));
+			return null;
+		}
+
+		const unmount = await mount(<Tags />);
+
+		// A re-render from local state creates a new selector and a new array, but the result is shallow equal
+		await act(async () => {
+			setTick(1);
+		});
+		expect(renders).toHaveLength(2);
+		expect(renders[1]).toBe(renders[0]);
+
+		await unmount();
+	});
+
+	test('returns null for a null store without calling the selector', async () => {
+		let latest: unknown = undefined;
+		let calls = 0;
+
+		function Name({ store }: { store: Store<{ user: User }> | null }) {
+			latest = useStoreSelector(store, 'user', (user) => {
+				calls++;
+				return user.name;
+			});
+			return null;
+		}
+
+		const unmount = await mount(<Name store={null} />);
+		expect(latest).toBeNull();
+		expect(calls).toBe(0);
+
+		await unmount();
+	});
+});
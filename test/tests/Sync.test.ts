@@ -0,0 +1,212 @@
+import { describe, expect, test, vi } from 'vitest';
+import Store, { SyncMessage, SyncTransport, syncAcrossContexts } from 'react-granular-store';
+
+// An in-memory channel. Like a BroadcastChannel, messages go to every other transport and aren't delivered straight
+// away, so tests can make writes in several instances before any of them hear about the others.
+const createHub = () => {
+	const listeners = new Set<(message: SyncMessage) => void>();
+	const queue: (() => void)[] = [];
+	const posted: SyncMessage[] = [];
+	const connect = (): SyncTransport => {
+		const own = new Set<(message: SyncMessage) => void>();
+		return {
+			postMessage: (message) => {
+				posted.push(message);
+				listeners.forEach((listener) => {
+					if (!own.has(listener)) queue.push(() => listener(message));
+				});
+			},
+			subscribe: (listener) => {
+				own.add(listener);
+				listeners.add(listener);
+				return () => {
+					own.delete(listener);
+					listeners.delete(listener);
+				};
+			},
+		};
+	};
+	// Deliver every queued message, including any sent in response
+	const flush = () => {
+		while (queue.length > 0) queue.shift()!();
+	};
+	return { connect, flush, posted };
+};
+
+describe('syncAcrossContexts', () => {
+	test('propagates changes between instances', () => {
+		const hub = createHub();
+		const a = new Store({ theme: 'light', fontSize: 14 });
+		const b = new Store({ theme: 'light', fontSize: 14 });
+		syncAcrossContexts(a, {
+			channelName: 'settings',
+			transport: hub.connect(),
+		});
+		syncAcrossContexts(b, {
+			channelName: 'settings',
+			transport: hub.connect(),
+		});
+		hub.flush();
+
+		a.setState('theme', 'dark');
+		hub.flush();
+		expect(b.getState('theme')).toBe('dark');
+
+		b.setMany({ theme: 'light', fontSize: 16 });
+		hub.flush();
+		expect(a.getState('theme')).toBe('light');
+		expect(a.getState('fontSize')).toBe(16);
+	});
+
+	test('does not send received changes back', () => {
+		const hub = createHub();
+		const a = new Store({ count: 0 });
+		const b = new Store({ count: 0 });
+		syncAcrossContexts(a, {
+			channelName: 'counter',
+			transport: hub.connect(),
+			id: 'a',
+		});
+		syncAcrossContexts(b, {
+			channelName: 'counter',
+			transport: hub.connect(),
+			id: 'b',
+		});
+		hub.flush();
+		hub.posted.length = 0;
+
+		a.setState('count', 1);
+		hub.flush();
+
+		expect(b.getState('count')).toBe(1);
+		expect(hub.posted).toEqual([
+			{
+				type: 'update',
+				source: 'a',
+				entries: [{ key: 'count', value: 1, stamp: { clock: 1, id: 'a' } }],
+			},
+		]);
+	});
+
+	test('only syncs the chosen keys', () => {
+		const hub = createHub();
+		const a = new Store({ theme: 'light', draft: '' });
+		const b = new Store({ theme: 'light', draft: '' });
+		syncAcrossContexts(a, {
+			channelName: 'settings',
+			keys: ['theme'],
+			transport: hub.connect(),
+		});
+		syncAcrossContexts(b, {
+			channelName: 'settings',
+			keys: ['theme'],
+			transport: hub.connect(),
+		});
+
+		a.setMany({ theme: 'dark', draft: 'hello' });
+		hub.flush();
+
+		expect(b.getState('theme')).toBe('dark');
+		expect(b.getState('draft')).toBe('');
+	});
+
+	test('a late joiner requests a snapshot', () => {
+		const hub = createHub();
+		const a = new Store({ theme: 'light', fontSize: 14 });
+		syncAcrossContexts(a, {
+			channelName: 'settings',
+			transport: hub.connect(),
+		});
+		a.setState('theme', 'dark');
+		hub.flush();
+
+		const b = new Store({ theme: 'light', fontSize: 14 });
+		const callback = vi.fn();
+		b.on('theme', callback);
+		syncAcrossContexts(b, {
+			channelName: 'settings',
+			transport: hub.connect(),
+		});
+		hub.flush();
+
+		expect(b.getState('theme')).toBe('dark');
+		expect(b.getState('fontSize')).toBe(14);
+		expect(callback).toHaveBeenCalledTimes(1);
+	});
+
+	test('concurrent writes settle on the same value everywhere', () => {
+		const hub = createHub();
+		const a = new Store({ theme: 'light' });
+		const b = new Store({ theme: 'light' });
+		const c = new Store({ theme: 'light' });
+		syncAcrossContexts(a, {
+			channelName: 'settings',
+			transport: hub.connect(),
+			id: 'a',
+		});
+		syncAcrossContexts(b, {
+			channelName: 'settings',
+			transport: hub.connect(),
+			id: 'b',
+		});
+		syncAcrossContexts(c, {
+			channelName: 'settings',
+			transport: hub.connect(),
+			id: 'c',
+		});
+		hub.flush();
+
+		// Neither write has been seen by the other instances, so the clocks are equal and the higher id wins
+		a.setState('theme', 'dark');
+		b.setState('theme', 'blue');
+		hub.flush();
+
+		expect([a, b, c].map((store) => store.getState('theme'))).toEqual(['blue', 'blue', 'blue']);
+
+		// A write made after seeing the others wins regardless of id
+		a.setState('theme', 'green');
+		hub.flush();
+		expect([a, b, c].map((store) => store.getState('theme'))).toEqual(['green', 'green', 'green']);
+	});
+
+	test('works in batch mode', async () => {
+		const hub = createHub();
+		const a = new Store({ count: 0 }, { batchUpdates: true });
+		const b = new Store({ count: 0 }, { batchUpdates: true });
+		syncAcrossContexts(a, { channelName: 'counter', transport: hub.connect() });
+		syncAcrossContexts(b, { channelName: 'counter', transport: hub.connect() });
+		hub.flush();
+		hub.posted.length = 0;
+
+		a.setState('count', 1);
+		await new Promise((r) => setTimeout(r, 0));
+		hub.flush();
+		await new Promise((r) => setTimeout(r, 0));
+		hub.flush();
+
+		expect(b.getState('count')).toBe(1);
+		expect(hub.posted).toHaveLength(1);
+	});
+
+	test('disconnecting stops syncing', () => {
+		const hub = createHub();
+		const a = new Store({ count: 0 });
+		const b = new Store({ count: 0 });
+		const close = vi.fn();
+		const disconnect = syncAcrossContexts(a, {
+			channelName: 'counter',
+			transport: { ...hub.connect(), close },
+		});
+		syncAcrossContexts(b, { channelName: 'counter', transport: hub.connect() });
+		hub.flush();
+
+		disconnect();
+		a.setState('count', 1);
+		b.setState('count', 2);
+		hub.flush();
+
+		expect(a.getState('count')).toBe(1);
+		expect(b.getState('count')).toBe(2);
+		expect(close).toHaveBeenCalled();
+	});
+});
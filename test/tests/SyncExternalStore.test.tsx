@@ -0,0 +1,191 @@
+// @vitest-environment jsdom
+import { describe, expect, test } from 'vitest';
+import { Expect, Equal } from 'type-testing';
+import React, { act, useLayoutEffect } from 'react';
+import { createRoot } from 'react-dom/client';
+import { renderToString } from 'react-dom/server';
+import Store, { StoreSnapshot, useStoreValue } from 'react-granular-store';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+const typedStore = new Store({ count: 0 });
+const typedSnapshot = typedStore.getSnapshot('count');
+type TEST_STORE_GETSNAPSHOT = Expect<Equal<typeof typedSnapshot, StoreSnapshot<number>>>;
+
+const mount = async (element: React.ReactElement) => {
+	const container = document.createElement('div');
+	document.body.appendChild(container);
+	const root = createRoot(container);
+	await act(async () => {
+		root.render(element);
+	});
+	return {
+		container,
+		unmount: async () => {
+			await act(async () => {
+				root.unmount();
+			});
+			container.remove();
+		},
+	};
+};
+
+describe('Store snapshots', () => {
+	test('snapshot reference is stable until the key changes', () => {
+		const store = new Store({ a: 0, b: 0 });
+		const first = store.getSnapshot('a');
+		expect(store.getSnapshot('a')).toBe(first);
+		expect(first).toEqual({ version: 0, value: 0 });
+
+		// Changing another key leaves the snapshot alone
+		store.setState('b', 1);
+		expect(store.getSnapshot('a')).toBe(first);
+
+		store.setState('a', 1);
+		const second = store.getSnapshot('a');
+		expect(second).not.toBe(first);
+		expect(second).toEqual({ version: 1, value: 1 });
+		expect(store.getVersion('a')).toBe(1);
+	});
+
+	test('equal values do not bump the version', () => {
+		const store = new Store({ a: 0 });
+		store.setState('a', 0);
+		expect(store.getVersion('a')).toBe(0);
+	});
+
+	test('snapshots only change when a batch is resolved', async () => {
+		const store = new Store({ a: 0 }, { batchUpdates: true });
+		const before = store.getSnapshot('a');
+		store.setState('a', 1);
+		expect(store.getState('a')).toBe(1);
+		expect(store.getSnapshot('a')).toBe(before);
+
+		await new Promise((r) => setTimeout(r, 0));
+
+		expect(store.getSnapshot('a')).toEqual({ version: 1, value: 1 });
+	});
+
+	test('server snapshot follows the committed state', () => {
+		const store = new Store({ a: 1 });
+		const server = store.getServerSnapshot('a');
+		expect(server.value).toBe(1);
+		expect(store.getServerSnapshot('a')).toBe(server);
+
+		function Value() {
+			return <span>{useStoreValue(store, 'a')}</span>;
+		}
+		expect(renderToString(<Value />)).toBe('<span>1</span>');
+		store.setState('a', 2);
+		expect(store.getServerSnapshot('a')).toEqual({ version: 1, value: 2 });
+		expect(renderToString(<Value />)).toBe('<span>2</span>');
+	});
+});
+
+describe('useStoreValue: useSyncExternalStore', () => {
+	test('components reading the same key never disagree', async () => {
+		const store = new Store({ count: 0 });
+		const renders: Array<[string, number]> = [];
+
+		function Reader({ name }: { name: string }) {
+			const value = useStoreValue(store, 'count');
+			renders.push([name, value]);
+			return null;
+		}
+
+		const { unmount } = await mount(
+			<>
+				<Reader name="first" />
+				<Reader name="second" />
+			</>,
+		);
+
+		await act(async () => {
+			store.setState('count', 1);
+		});
+
+		const lastFirst = renders.filter(([name]) => name === 'first').at(-1);
+		const lastSecond = renders.filter(([name]) => name === 'second').at(-1);
+		expect(lastFirst?.[1]).toBe(1);
+		expect(lastSecond?.[1]).toBe(1);
+
+		await unmount();
+	});
+
+	test('an update between render and subscription is not missed', async () => {
+		const store = new Store({ count: 0 });
+		let latest = -1;
+
+		function Reader() {
+			latest = useStoreValue(store, 'count');
+			return null;
+		}
+
+		// Layout effects run before passive effects, which is where the old implementation subscribed
+		function Writer() {
+			useLayoutEffect(() => {
+				store.setState('count', 5);
+			}, []);
+			return null;
+		}
+
+		const { unmount } = await mount(
+			<>
+				<Reader />
+				<Writer />
+			</>,
+		);
+
+		expect(latest).toBe(5);
+
+		await unmount();
+	});
+
+	test('batched updates reach the hook when the batch resolves', async () => {
+		const store = new Store({ count: 0 }, { batchUpdates: true });
+		const seen: number[] = [];
+
+		function Reader() {
+			seen.push(useStoreValue(store, 'count'));
+			return null;
+		}
+
+		const { unmount } = await mount(<Reader />);
+
+		await act(async () => {
+			store.setState('count', 1);
+			store.setState('count', 2);
+			await new Promise((r) => setTimeout(r, 0));
+		});
+
+		expect(seen).toEqual([0, 2]);
+
+		await unmount();
+	});
+
+	test('renders the server snapshot with renderToString', () => {
+		const store = new Store({ name: 'John Doe' });
+
+		function Name() {
+			const name = useStoreValue(store, 'name');
+			return <span>{name}</span>;
+		}
+
+		expect(renderToString(<Name />)).toBe('<span>John Doe</span>');
+	});
+
+	test('a null store yields null', async () => {
+		let latest: unknown = undefined;
+
+		function Reader({ store }: { store: Store<{ count: number }> | null }) {
+			latest = useStoreValue(store, 'count');
+			return null;
+		}
+
+		const { unmount } = await mount(<Reader store={null} />);
+		expect(latest).toBeNull();
+
+		await unmount();
+	});
+});
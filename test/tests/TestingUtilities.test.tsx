@@ -0,0 +1,144 @@
+// @vitest-environment jsdom
+import { describe, expect, test, vi } from 'vitest';
+import { Expect, Equal } from 'type-testing';
+import React from 'react';
+import { createRoot } from 'react-dom/client';
+import Store, { useStoreValue } from 'react-granular-store';
+import {
+	actFlush,
+	actSetState,
+	createTestStore,
+	emissionSerializer,
+	flushStore,
+	formatEmissions,
+	recordEmissions,
+	StoreEmission,
+	waitForValue,
+} from 'react-granular-store/testing';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+describe('createTestStore', () => {
+	test('records every emission', () => {
+		const store = createTestStore({ count: 0, name: 'Ada' });
+		type TEST_EMISSIONS = Expect<
+			Equal<(typeof store.emissions)[number], StoreEmission<{ count: number; name: string }>>
+		>;
+
+		store.setState('count', 1);
+		store.setMany({ count: 2, name: 'Grace' });
+
+		expect(store.emissions).toEqual([
+			{ key: 'count', oldValue: 0, newValue: 1 },
+			{ key: 'count', oldValue: 1, newValue: 2 },
+			{ key: 'name', oldValue: 'Ada', newValue: 'Grace' },
+		]);
+
+		store.clearEmissions();
+		expect(store.emissions).toEqual([]);
+	});
+
+	test('recordEmissions works with any store', () => {
+		const store = new Store({ count: 0 });
+		const recorder = recordEmissions(store);
+
+		store.setState('count', 1);
+		recorder.stop();
+		store.setState('count', 2);
+
+		expect(recorder.emissions).toEqual([{ key: 'count', oldValue: 0, newValue: 1 }]);
+	});
+});
+
+describe('waitForValue', () => {
+	test('resolves once the value matches', async () => {
+		const store = new Store({ status: 'idle' }, { batchUpdates: true });
+		setTimeout(() => store.setState('status', 'done'), 5);
+
+		await expect(waitForValue(store, 'status', (status) => status === 'done')).resolves.toBe('done');
+		await expect(waitForValue(store, 'status', (status) => status === 'done')).resolves.toBe('done');
+	});
+
+	test('rejects after the timeout', async () => {
+		const store = new Store({ status: 'idle' });
+		await expect(waitForValue(store, 'status', (status) => status === 'done', { timeout: 10 })).rejects.toThrow(
+			'Timed out after 10ms waiting for the value of "status"',
+		);
+		expect(store.callbacks.status?.size).toBe(0);
+	});
+});
+
+describe('flushStore', () => {
+	test('resolves batches under fake timers', () => {
+		vi.useFakeTimers();
+		try {
+			const first = createTestStore({ count: 0 }, { batchUpdates: true });
+			const second = createTestStore({ count: 0 }, { batchUpdates: true });
+
+			first.setState('count', 1);
+			second.setState('count', 2);
+			flushStore(first, second);
+
+			expect(first.emissions).toHaveLength(1);
+			expect(second.getSnapshot('count').value).toBe(2);
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+});
+
+describe('act helpers', () => {
+	test('update components', async () => {
+		const store = new Store({ count: 0 }, { batchUpdates: true });
+
+		function Count() {
+			return <>{useStoreValue(store, 'count')}</>;
+		}
+
+		const container = document.createElement('div');
+		document.body.appendChild(container);
+		const root = createRoot(container);
+
+		await actFlush();
+		await React.act(async () => {
+			root.render(<Count />);
+		});
+
+		await actSetState(store, 'count', (count) => count + 1);
+		expect(container.textContent).toBe('1');
+
+		store.setState('count', 5);
+		await actFlush(store);
+		expect(container.textContent).toBe('5');
+
+		await React.act(async () => {
+			root.unmount();
+		});
+		container.remove();
+	});
+});
+
+describe('serializers', () => {
+	test('format emission logs for snapshots', () => {
+		const store = createTestStore({
+			count: 0,
+			tags: new Set<string>(),
+			user: undefined as { name: string } | undefined,
+		});
+		store.setState('count', 1);
+		store.setState('tags', new Set(['a']));
+		store.setState('user', { name: 'Ada' });
+
+		expect(formatEmissions(store.emissions)).toBe(
+			['count: 0 -> 1', 'tags: Set [] -> Set ["a"]', 'user: undefined -> {"name":"Ada"}'].join('\n'),
+		);
+
+		expect.addSnapshotSerializer(emissionSerializer);
+		expect(store.emissions).toMatchInlineSnapshot(`
+			count: 0 -> 1
+			tags: Set [] -> Set ["a"]
+			user: undefined -> {"name":"Ada"}
+		`);
+	});
+});
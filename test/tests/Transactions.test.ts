@@ -0,0 +1,181 @@
+import { describe, expect, test, vi } from 'vitest';
+import { Expect, Equal } from 'type-testing';
+import Store from 'react-granular-store';
+
+const typedStore = new Store({ firstName: 'John', lastName: 'Doe', age: 30 });
+
+// setMany accepts a partial object of values or updaters
+typedStore.setMany({ firstName: 'Jane', age: (current) => current + 1 });
+
+// @ts-expect-error - should error because age is a number
+typedStore.setMany({ age: 'thirty' });
+
+// @ts-expect-error - should error because 'notInStore' is not in the store
+typedStore.setMany({ notInStore: true });
+
+const transactionResult = typedStore.transaction(() => 42);
+type TEST_TRANSACTION_RESULT = Expect<Equal<typeof transactionResult, number>>;
+
+describe('Store#transaction', () => {
+	test('listeners only run after every write is applied', () => {
+		const store = new Store({ firstName: 'John', lastName: 'Doe' });
+		const seen: string[] = [];
+		const record = () => seen.push(`${store.getState('firstName')} ${store.getState('lastName')}`);
+		store.on('firstName', record);
+		store.on('lastName', record);
+
+		store.transaction(() => {
+			store.setState('firstName', 'Jane');
+			expect(seen).toEqual([]);
+			store.setState('lastName', 'Smith');
+		});
+
+		expect(seen).toEqual(['Jane Smith', 'Jane Smith']);
+	});
+
+	test('notifies each key once with its final value', () => {
+		const store = new Store({ count: 0 });
+		const callback = vi.fn();
+		store.on('count', callback);
+
+		store.transaction(() => {
+			store.setState('count', (current) => current + 1);
+			store.setState('count', (current) => current + 1);
+			expect(store.getState('count')).toBe(2);
+		});
+
+		expect(callback).toHaveBeenCalledTimes(1);
+		expect(callback).toHaveBeenCalledWith(2);
+	});
+
+	test('does not write to the store until it completes', () => {
+		const store = new Store({ count: 0 });
+		store.transaction(() => {
+			store.setState('count', 1);
+			expect(store.state.count).toBe(0);
+			expect(store.getSnapshot('count').value).toBe(0);
+		});
+		expect(store.state.count).toBe(1);
+	});
+
+	test('rolls back every write when the callback throws', () => {
+		const store = new Store({ a: 0, b: 0 });
+		const callback = vi.fn();
+		store.subscribeAll(callback);
+
+		expect(() =>
+			store.transaction(() => {
+				store.setState('a', 1);
+				store.setState('b', 1);
+				throw new Error('failed');
+			}),
+		).toThrow('failed');
+
+		expect(store.getState('a')).toBe(0);
+		expect(store.getState('b')).toBe(0);
+		expect(callback).not.toHaveBeenCalled();
+	});
+
+	test('nested transactions are applied with the outermost one', () => {
+		const store = new Store({ a: 0, b: 0 });
+		const callback = vi.fn();
+		store.subscribeAll(callback);
+
+		store.transaction(() => {
+			store.setState('a', 1);
+			store.transaction(() => {
+				store.setState('b', 1);
+				expect(store.getState('a')).toBe(1);
+			});
+			expect(callback).not.toHaveBeenCalled();
+			expect(store.getState('b')).toBe(1);
+		});
+
+		expect(callback.mock.calls).toEqual([
+			['a', 1, 0],
+			['b', 1, 0],
+		]);
+	});
+
+	test('a nested transaction that throws only rolls back its own writes', () => {
+		const store = new Store({ a: 0, b: 0 });
+
+		store.transaction(() => {
+			store.setState('a', 1);
+			try {
+				store.transaction(() => {
+					store.setState('a', 2);
+					store.setState('b', 2);
+					throw new Error('inner');
+				});
+			} catch {
+				// The outer transaction carries on
+			}
+			expect(store.getState('a')).toBe(1);
+			expect(store.getState('b')).toBe(0);
+		});
+
+		expect(store.getState('a')).toBe(1);
+		expect(store.getState('b')).toBe(0);
+	});
+
+	test('derived keys only see the final values', () => {
+		const store = new Store({ firstName: 'John', lastName: 'Doe' }).derive(
+			'fullName',
+			(get) => `${get('firstName')} ${get('lastName')}`,
+		);
+		const seen: string[] = [];
+		store.on('fullName', (value) => seen.push(value));
+
+		store.transaction(() => {
+			store.setState('firstName', 'Jane');
+			expect(store.getState('fullName')).toBe('Jane Doe');
+			store.setState('lastName', 'Smith');
+		});
+
+		expect(seen).toEqual(['Jane Smith']);
+	});
+
+	test('joins the pending batch in batch mode', async () => {
+		const store = new Store({ a: 0, b: 0 }, { batchUpdates: true });
+		const callback = vi.fn();
+		store.subscribeAll(callback);
+
+		store.transaction(() => {
+			store.setState('a', 1);
+			store.setState('b', 1);
+		});
+		expect(store.getState('a')).toBe(1);
+		expect(callback).not.toHaveBeenCalled();
+
+		await new Promise((r) => setTimeout(r, 0));
+
+		expect(callback).toHaveBeenCalledTimes(2);
+	});
+});
+
+describe('Store#setMany', () => {
+	test('sets several keys atomically', () => {
+		const store = new Store({ firstName: 'John', lastName: 'Doe', age: 30 });
+		const seen: unknown[] = [];
+		store.on('firstName', () => seen.push([store.getState('firstName'), store.getState('age')]));
+
+		store.setMany({ firstName: 'Jane', age: (current) => current + 1 });
+
+		expect(seen).toEqual([['Jane', 31]]);
+		expect(store.getState('lastName')).toBe('Doe');
+	});
+});
+
+describe('Batch resolution', () => {
+	test('a setState from a listener during resolution is not lost', async () => {
+		const store = new Store({ a: 0, b: 0 }, { batchUpdates: true });
+		store.on('a', (a) => store.setState('b', a * 10));
+
+		store.setState('a', 1);
+		await new Promise((r) => setTimeout(r, 0));
+		await new Promise((r) => setTimeout(r, 0));
+
+		expect(store.state.b).toBe(10);
+	});
+});